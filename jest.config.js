@@ -0,0 +1,31 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+// The tests only use config/default.yaml. node-config expects a config file for any environment
+// other than development, so tell it that's the environment to stop it warning about the tests.
+process.env.NODE_CONFIG_ENV = 'development';
+
+module.exports = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    roots: ['<rootDir>/spec'],
+    setupFiles: ['<rootDir>/spec/setup.ts'],
+    globals: {
+        'ts-jest': {
+            tsconfig: '<rootDir>/spec/tsconfig.json',
+        },
+    },
+};
@@ -0,0 +1,268 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { setImmediate as setImmediateReal } from "node:timers";
+import { MatrixClient } from "matrix-bot-sdk";
+import config from "../src/config";
+import { Conference } from "../src/Conference";
+import { IDbTalk } from "../src/db/DbTalk";
+import { SchedulerHistory } from "../src/SchedulerHistory";
+import { Scoreboard } from "../src/Scoreboard";
+import {
+    DEFAULT_TIMELINE,
+    getInterestTimeline,
+    getStartTime,
+    getTimeline,
+    ITimelineTask,
+    makeTaskId,
+    ScheduledTaskType,
+    Scheduler,
+    sortTasks,
+    TimelineAnchor,
+} from "../src/Scheduler";
+import { InMemoryBackend, makeTalk, MINUTE } from "./util";
+
+function makeTask(timelineTask: ITimelineTask, talk: IDbTalk) {
+    return { id: makeTaskId(timelineTask, talk), timelineTask, talk };
+}
+
+describe("Scheduler timeline", () => {
+    const talk = makeTalk("42", "D.main", Date.parse("2021-02-06T10:00:00Z"));
+
+    afterEach(() => {
+        config.conference.timeline = undefined;
+        config.conference.interestTimeline = undefined;
+    });
+
+    it("keeps the task IDs from before the timeline was configurable", () => {
+        // Completed task IDs are persisted, so changing them would re-run tasks after an upgrade
+        for (const type of Object.values(ScheduledTaskType).filter(t => t.startsWith("talk_"))) {
+            const timelineTask = DEFAULT_TIMELINE.find(t => t.kind === type);
+            expect(makeTaskId(timelineTask, talk)).toBe(`${type}::42::D.main`);
+        }
+    });
+
+    it("runs the default tasks at the same times as before the timeline was configurable", () => {
+        const expectedTimes: { [type: string]: number } = {
+            [ScheduledTaskType.TalkStart1H]: talk.start_datetime - 60 * MINUTE,
+            [ScheduledTaskType.TalkCheckin45M]: talk.start_datetime - 45 * MINUTE,
+            [ScheduledTaskType.TalkCheckin30M]: talk.start_datetime - 30 * MINUTE,
+            [ScheduledTaskType.TalkCheckin15M]: talk.start_datetime - 15 * MINUTE,
+            [ScheduledTaskType.TalkStart5M]: talk.start_datetime - 5 * MINUTE,
+            [ScheduledTaskType.TalkStart]: talk.start_datetime,
+            [ScheduledTaskType.TalkQA5M]: talk.qa_start_datetime - 5 * MINUTE,
+            [ScheduledTaskType.TalkQA]: talk.qa_start_datetime,
+            [ScheduledTaskType.TalkLivestreamEnd1M]: talk.livestream_end_datetime - MINUTE,
+            [ScheduledTaskType.TalkEnd5M]: talk.end_datetime - 5 * MINUTE,
+            [ScheduledTaskType.TalkEnd1M]: talk.end_datetime - MINUTE,
+            [ScheduledTaskType.TalkEnd]: talk.end_datetime,
+        };
+        for (const timelineTask of DEFAULT_TIMELINE) {
+            expect(getStartTime(makeTask(timelineTask, talk))).toBe(expectedTimes[timelineTask.kind]);
+        }
+    });
+
+    it("runs tasks at the same time in timeline order", () => {
+        // The end of one talk and the start of the next happen at the same time
+        const nextTalk = makeTalk("43", "D.main", talk.end_datetime);
+        const start = DEFAULT_TIMELINE.find(t => t.kind === ScheduledTaskType.TalkStart);
+        const end = DEFAULT_TIMELINE.find(t => t.kind === ScheduledTaskType.TalkEnd);
+        const tasks = sortTasks([makeTask(start, nextTalk), makeTask(end, talk)]);
+        expect(tasks.map(t => t.id)).toEqual(["talk_end::42::D.main", "talk_start::43::D.main"]);
+    });
+
+    it("uses the configured timeline", () => {
+        const timeline: ITimelineTask[] = [
+            { name: "reminder", anchor: TimelineAnchor.Start, offsetMinutes: -10, message: "Starting soon" },
+        ];
+        config.conference.timeline = timeline;
+        expect(getTimeline()).toBe(timeline);
+        expect(getStartTime(makeTask(timeline[0], talk))).toBe(talk.start_datetime - 10 * MINUTE);
+        expect(makeTaskId(timeline[0], talk)).toBe("reminder::42::D.main");
+    });
+
+    it("rejects invalid timelines", () => {
+        config.conference.timeline = [
+            { name: "reminder", anchor: TimelineAnchor.Start, offsetMinutes: -10, message: "Starting soon" },
+            { name: "reminder", anchor: TimelineAnchor.End, offsetMinutes: 0, message: "Finished" },
+        ];
+        expect(() => getTimeline()).toThrow(/unique/);
+
+        config.conference.timeline = [
+            { name: "reminder", anchor: "halfway" as TimelineAnchor, offsetMinutes: 0, message: "Halfway" },
+        ];
+        expect(() => getTimeline()).toThrow(/Unknown anchor/);
+
+        config.conference.timeline = [
+            { name: "reminder", anchor: TimelineAnchor.Start, offsetMinutes: 0 },
+        ];
+        expect(() => getTimeline()).toThrow(/needs a kind/);
+    });
+
+    it("doesn't let interest room tasks share names with talk tasks", () => {
+        // Otherwise their task IDs could clash
+        config.conference.interestTimeline = [
+            { name: ScheduledTaskType.TalkStart, anchor: TimelineAnchor.Start, offsetMinutes: 0, message: "Starting" },
+        ];
+        expect(() => getInterestTimeline()).toThrow(/unique/);
+    });
+});
+
+describe("Scheduler", () => {
+    const START = Date.parse("2021-02-06T10:00:00Z");
+    const backend = new InMemoryBackend([
+        makeTalk("1", "D.main", START),
+        makeTalk("2", "D.other", START),
+    ]);
+
+    let accountData: object;
+    let client: MatrixClient;
+    let executed: string[];
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(START - MINUTE);
+        config.conference.timeline = [
+            { name: "start", anchor: TimelineAnchor.Start, offsetMinutes: 0, message: "Starting" },
+        ];
+        config.conference.interestTimeline = [
+            { name: "interest_start", anchor: TimelineAnchor.Start, offsetMinutes: 0, message: "Starting" },
+        ];
+        accountData = { completed: [], inAuditoriums: ["D.main", "D.other"] };
+        client = {
+            getSafeAccountData: jest.fn(async () => accountData),
+            setAccountData: jest.fn(async (type: string, content: object) => {
+                accountData = content;
+            }),
+            sendNotice: jest.fn(),
+        } as unknown as MatrixClient;
+
+        executed = [];
+        jest.spyOn(Scheduler.prototype as any, "_execute").mockImplementation(async (task: { id: string }) => {
+            executed.push(task.id);
+        });
+        jest.spyOn(SchedulerHistory.prototype, "record").mockResolvedValue();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+        config.conference.timeline = undefined;
+        config.conference.interestTimeline = undefined;
+    });
+
+    async function makeScheduler(): Promise<Scheduler> {
+        const conference = {
+            getBackendDb: async () => backend,
+            getInterestRoom: (id: string) => id.startsWith("S.") ? {} : undefined,
+        } as unknown as Conference;
+        const scheduler = new Scheduler(client, conference, {} as Scoreboard);
+        await scheduler.prepare();
+        return scheduler;
+    }
+
+    /**
+     * Moves the clock forward, a minute at a time, firing the scheduler's timers and waiting for
+     * whatever they start to finish.
+     */
+    async function advanceTo(time: number) {
+        do {
+            jest.advanceTimersByTime(Math.min(MINUTE, time - Date.now()));
+            // Nothing else is faked, so this runs once everything is waiting on a timer again
+            await new Promise(resolve => setImmediateReal(resolve));
+        } while (Date.now() < time);
+    }
+
+    it("runs tasks once they are due", async () => {
+        const scheduler = await makeScheduler();
+        expect(executed).toEqual([]);
+
+        await advanceTo(START);
+        expect(executed).toEqual(["start::1::D.main", "start::2::D.other"]);
+        expect(accountData).toMatchObject({ completed: ["start::1::D.main", "start::2::D.other"] });
+
+        await scheduler.refresh();
+        await advanceTo(START + MINUTE);
+        expect(executed).toHaveLength(2);
+    });
+
+    it("holds tasks in paused auditoriums until they are resumed", async () => {
+        const scheduler = await makeScheduler();
+        await scheduler.pauseAuditorium("D.main");
+        expect(scheduler.isAuditoriumPaused("D.main")).toBe(true);
+
+        await advanceTo(START);
+        expect(executed).toEqual(["start::2::D.other"]);
+
+        await advanceTo(START + 2 * MINUTE);
+        await scheduler.resumeAuditorium("D.main");
+        expect(executed).toEqual(["start::2::D.other", "start::1::D.main"]);
+        expect(scheduler.getPausedAuditoriums()).toEqual([]);
+    });
+
+    it("stays paused across restarts", async () => {
+        await (await makeScheduler()).pauseAuditorium("D.main");
+        expect(accountData).toMatchObject({ pausedAuditoriums: ["D.main"] });
+        // Stop the first scheduler, as if the bot had been restarted. This also resets the clock.
+        jest.clearAllTimers();
+        jest.setSystemTime(START - MINUTE);
+
+        const scheduler = await makeScheduler();
+        expect(scheduler.isAuditoriumPaused("D.main")).toBe(true);
+        await advanceTo(START);
+        expect(executed).toEqual(["start::2::D.other"]);
+    });
+
+    it("moves the timers of tasks when their talks are delayed", async () => {
+        const scheduler = await makeScheduler();
+        const talk = backend.talks[0];
+        backend.talks[0] = makeTalk("1", "D.main", START + 10 * MINUTE);
+        try {
+            await scheduler.refresh();
+            await advanceTo(START);
+            expect(executed).toEqual(["start::2::D.other"]);
+
+            await advanceTo(START + 10 * MINUTE);
+            expect(executed).toEqual(["start::2::D.other", "start::1::D.main"]);
+        } finally {
+            backend.talks[0] = talk;
+        }
+    });
+
+    it("runs the interest room timeline for sessions in interest rooms", async () => {
+        backend.talks.push(makeTalk("3", "S.hallway", START));
+        accountData = { completed: [], inAuditoriums: ["S.hallway"] };
+        try {
+            const scheduler = await makeScheduler();
+            await advanceTo(START);
+            expect(executed).toEqual(["interest_start::3::S.hallway"]);
+            expect(scheduler.inspect()).toEqual([]);
+        } finally {
+            backend.talks.pop();
+        }
+    });
+
+    it("skips tasks without running them", async () => {
+        const scheduler = await makeScheduler();
+        await scheduler.skip("start::1::D.main");
+        expect(accountData).toMatchObject({ completed: ["start::1::D.main"] });
+
+        await advanceTo(START);
+        expect(executed).toEqual(["start::2::D.other"]);
+
+        await expect(scheduler.skip("start::3::D.main")).rejects.toThrow(/does not exist/);
+    });
+});
@@ -0,0 +1,186 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import config from "../src/config";
+import { QAFlag, Scoreboard } from "../src/Scoreboard";
+
+const ROOM = "!auditorium:example.org";
+const BOT = "@confbot:example.org";
+const ASKER = "@asker:example.org";
+
+describe("Scoreboard", () => {
+    let dataPath: string;
+    let handlers: { [event: string]: (roomId: string, event: any) => Promise<void> };
+    let client: any;
+    let scoreboard: Scoreboard;
+    let nextEventId: number;
+    let askers: { [questionId: string]: string };
+
+    beforeEach(async () => {
+        dataPath = await fs.mkdtemp(path.join(os.tmpdir(), "confbot-"));
+        config.dataPath = dataPath;
+        handlers = {};
+        client = {
+            homeserverUrl: "https://example.org",
+            on: (event: string, handler: (roomId: string, event: any) => Promise<void>) => handlers[event] = handler,
+            getUserId: jest.fn().mockResolvedValue(BOT),
+            getEvent: jest.fn().mockImplementation(async (roomId: string, eventId: string) => ({
+                type: "m.room.message",
+                event_id: eventId,
+                sender: askers[eventId] ?? ASKER,
+                content: { msgtype: "m.text", body: `Question ${eventId}` },
+            })),
+            getUserProfile: jest.fn().mockResolvedValue({}),
+            userHasPowerLevelForAction: jest.fn().mockResolvedValue(true),
+            replyNotice: jest.fn(),
+            unstableApis: { addReactionToEvent: jest.fn() },
+        };
+        const conference: any = { storedAuditoriums: [{ roomId: ROOM }], storedInterestRooms: [], storedTalks: [] };
+        scoreboard = new Scoreboard(conference, client);
+        await client.getUserId();
+        nextEventId = 0;
+        askers = {};
+    });
+
+    afterEach(async () => {
+        config.conference.scoreboard = undefined;
+        await fs.rm(dataPath, { recursive: true });
+    });
+
+    async function vote(sender: string, questionId: string, reaction = "👍") {
+        await react(ROOM, sender, questionId, reaction);
+    }
+
+    async function react(roomId: string, sender: string, eventId: string, reaction: string) {
+        await handlers["room.event"](roomId, {
+            type: "m.reaction",
+            sender: sender,
+            event_id: `$reaction${nextEventId++}`,
+            content: { "m.relates_to": { rel_type: "m.annotation", event_id: eventId, key: reaction } },
+        });
+    }
+
+    async function join(userId: string, timestamp: number) {
+        await handlers["room.event"](ROOM, {
+            type: "m.room.member",
+            state_key: userId,
+            origin_server_ts: timestamp,
+            content: { membership: "join" },
+        });
+    }
+
+    function getScores(): { [eventId: string]: number } {
+        const scores = {};
+        for (const message of scoreboard.getScoreboard(ROOM)?.ordered ?? []) {
+            scores[message.eventId] = message.upvotes;
+        }
+        return scores;
+    }
+
+    it("counts 👍 and 👎 by default", async () => {
+        await vote("@a:example.org", "$q1");
+        await vote("@b:example.org", "$q1");
+        await vote("@c:example.org", "$q1", "👎");
+        await vote("@a:example.org", "$q2", "🔥");
+
+        expect(getScores()).toEqual({ "$q1": 1 });
+    });
+
+    it("weights the configured reactions", async () => {
+        config.conference.scoreboard = { votes: { "🔥": 2, "👍": 1, "👎": -0.5 } };
+        await vote("@a:example.org", "$q1", "🔥");
+        await vote("@b:example.org", "$q1");
+        await vote("@c:example.org", "$q1", "👎");
+
+        expect(getScores()).toEqual({ "$q1": 2.5 });
+    });
+
+    it("weights votes from the bot and the configured bots", async () => {
+        config.conference.scoreboard = { botUsers: ["^@bridge_.*:example\\.org$"], weights: { bots: 0.5 } };
+        await vote(BOT, "$q1");
+        await vote("@bridge_someone:example.org", "$q1");
+        await vote("@someone:example.org", "$q1");
+
+        expect(getScores()).toEqual({ "$q1": 2 });
+    });
+
+    it("does not add questions to the scoreboard for votes which don't count", async () => {
+        config.conference.scoreboard = { weights: { selfVotes: 0 } };
+        await vote(ASKER, "$q1");
+        await vote("@b:example.org", "$q2");
+        await vote(ASKER, "$q2");
+
+        expect(getScores()).toEqual({ "$q2": 1 });
+    });
+
+    it("weights votes from people who joined after the talk started", async () => {
+        config.conference.scoreboard = { weights: { lateJoiners: 0.25 } };
+        await join("@early:example.org", Date.now() - 1000);
+        await scoreboard.resetScoreboard(ROOM, "talk1");
+        await join("@late:example.org", Date.now() + 1000);
+        await vote("@early:example.org", "$q1");
+        await vote("@late:example.org", "$q1");
+        await vote("@unknown:example.org", "$q1");
+
+        expect(getScores()).toEqual({ "$q1": 2.25 });
+    });
+
+    it("limits how many open questions each person can have on the scoreboard", async () => {
+        config.conference.scoreboard = { maxOpenQuestionsPerUser: 1 };
+        askers["$q3"] = "@other:example.org";
+        await vote("@b:example.org", "$q1");
+        await vote("@b:example.org", "$q2");
+        await vote("@b:example.org", "$q3");
+        expect(getScores()).toEqual({ "$q1": 1, "$q3": 1 });
+
+        // More votes on a question which is already on the scoreboard still count
+        await vote("@c:example.org", "$q1");
+        expect(getScores()).toEqual({ "$q1": 2, "$q3": 1 });
+
+        // Once it's answered, another question can go on the scoreboard
+        await scoreboard.setFlag(ROOM, "$q1", QAFlag.Answered, true);
+        await vote("@b:example.org", "$q2");
+        expect(getScores()).toEqual({ "$q1": 2, "$q2": 1, "$q3": 1 });
+    });
+
+    it("lets moderators flag questions in rooms with their own scoreboards", async () => {
+        const room = "!room:example.org";
+        await scoreboard.enableScoreboard(room);
+        await react(room, "@moderator:example.org", "$q1", "📌");
+        expect(scoreboard.getScoreboard(room).ordered.map(m => [m.eventId, m.pinned])).toEqual([["$q1", true]]);
+
+        // The bot's own reactions never moderate, even though it may redact messages
+        await react(room, BOT, "$q2", "✅");
+        expect(scoreboard.getScoreboard(room).ordered.map(m => m.eventId)).toEqual(["$q1"]);
+    });
+
+    it("does not acknowledge !qa commands with a moderation reaction", async () => {
+        const room = "!room:example.org";
+        await scoreboard.enableScoreboard(room);
+        await handlers["room.message"](room, {
+            type: "m.room.message",
+            sender: "@moderator:example.org",
+            event_id: "$command",
+            content: { msgtype: "m.text", body: "!qa answer $q1" },
+        });
+
+        expect(scoreboard.getScoreboard(room).ordered.map(m => [m.eventId, m.answered])).toEqual([["$q1", true]]);
+        expect(client.unstableApis.addReactionToEvent).toHaveBeenCalledWith(room, "$command", "👌");
+    });
+});
@@ -0,0 +1,60 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { IScheduleSyncPlan, renderScheduleSyncPlan, TalkSyncAction } from "../../../src/commands/actions/sync";
+
+const plan: IScheduleSyncPlan = {
+    auditoriums: [],
+    talks: [{
+        action: TalkSyncAction.Update,
+        talkId: "1",
+        title: "Welcome",
+        auditoriumId: "D.main",
+        changes: ["renamed from \"Hello\""],
+    }, {
+        action: TalkSyncAction.Cancel,
+        talkId: "2",
+        title: "Goodbye",
+        auditoriumId: "D.main",
+        changes: ["removed from the schedule"],
+    }],
+};
+
+describe("renderScheduleSyncPlan", () => {
+    it("lists the changes to be made in a preview", () => {
+        const html = renderScheduleSyncPlan(plan, true);
+        expect(html).toContain("Nothing has been changed");
+        expect(html).toContain("<b>Welcome</b>");
+        expect(html).toContain("<b>Goodbye</b>");
+    });
+
+    it("lists the changes which failed apart from those which were applied", () => {
+        const html = renderScheduleSyncPlan(plan, false, [{ talkSync: plan.talks[1], error: "Room not found" }]);
+        const [applied, failed] = html.split("could not be made");
+        expect(applied).toContain("have been applied");
+        expect(applied).toContain("<b>Welcome</b>");
+        expect(applied).not.toContain("<b>Goodbye</b>");
+        expect(failed).toContain("<b>Goodbye</b>");
+        expect(failed).toContain("Error: Room not found");
+    });
+
+    it("doesn't claim anything was applied when every change failed", () => {
+        const failures = plan.talks.map(talkSync => ({ talkSync, error: "Forbidden" }));
+        const html = renderScheduleSyncPlan(plan, false, failures);
+        expect(html).not.toContain("have been applied");
+        expect(html).toContain("could not be made");
+    });
+});
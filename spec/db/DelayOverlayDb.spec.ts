@@ -0,0 +1,99 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import config from "../../src/config";
+import { DelayOverlayDb } from "../../src/db/DelayOverlayDb";
+import { InMemoryBackend, makeTalk, MINUTE } from "../util";
+
+const START = Date.parse("2021-02-06T10:00:00Z");
+
+describe("DelayOverlayDb", () => {
+    let dataPath: string;
+    let backend: InMemoryBackend;
+
+    beforeEach(async () => {
+        dataPath = await fs.mkdtemp(path.join(os.tmpdir(), "confbot-"));
+        config.dataPath = dataPath;
+        backend = new InMemoryBackend([
+            makeTalk("1", "D.main", START),
+            makeTalk("2", "D.main", START + 30 * MINUTE),
+            makeTalk("3", "D.main", START + 60 * MINUTE),
+            makeTalk("4", "D.other", START + 30 * MINUTE),
+        ]);
+        jest.useFakeTimers();
+        jest.setSystemTime(START + 15 * MINUTE);
+    });
+
+    afterEach(async () => {
+        jest.useRealTimers();
+        await fs.rm(dataPath, { recursive: true });
+    });
+
+    it("shifts the talks in the auditorium from the given time", async () => {
+        const db = new DelayOverlayDb(backend);
+        await db.addDelay("D.main", START + 30 * MINUTE, 10);
+
+        const [talk1, talk2, talk3, talk4] = await Promise.all(["1", "2", "3", "4"].map(id => db.getTalk(id)));
+        expect(talk1.start_datetime).toBe(START);
+        expect(talk2.start_datetime).toBe(START + 40 * MINUTE);
+        expect(talk2.qa_start_datetime).toBe(START + 60 * MINUTE);
+        expect(talk2.end_datetime).toBe(START + 70 * MINUTE);
+        expect(talk2.livestream_end_datetime).toBe(START + 69 * MINUTE);
+        expect(talk3.start_datetime).toBe(START + 70 * MINUTE);
+        expect(talk4.start_datetime).toBe(START + 30 * MINUTE);
+
+        const scheduled = await db.getScheduledTalk("2");
+        expect(scheduled.start_datetime).toBe(START + 30 * MINUTE);
+    });
+
+    it("adds delays together, and brings talks forward for negative delays", async () => {
+        const db = new DelayOverlayDb(backend);
+        await db.addDelay("D.main", START + 30 * MINUTE, 10);
+        await db.addDelay("D.main", START + 60 * MINUTE, -15);
+
+        expect((await db.getTalk("2")).start_datetime).toBe(START + 40 * MINUTE);
+        expect((await db.getTalk("3")).start_datetime).toBe(START + 55 * MINUTE);
+    });
+
+    it("finds talks by their delayed times", async () => {
+        const db = new DelayOverlayDb(backend);
+        // Talk 2 starts in 15 minutes, and talk 1 started 15 minutes ago
+        expect((await db.getUpcomingTalkStarts(20, 5)).map(t => t.event_id)).toEqual(["2", "4"]);
+
+        await db.addDelay("D.main", START, 10);
+        // Talk 1 is delayed to start in 5 minutes, and talk 2 out of the window
+        expect((await db.getUpcomingTalkStarts(20, 5)).map(t => t.event_id)).toEqual(["1", "4"]);
+
+        await db.addDelay("D.main", START, -20);
+        // Talk 2 is brought forward to start in 5 minutes
+        expect((await db.getUpcomingTalkStarts(5, 5)).map(t => t.event_id)).toEqual(["2"]);
+    });
+
+    it("keeps delays across restarts until they are cleared", async () => {
+        await new DelayOverlayDb(backend).addDelay("D.main", START, 10);
+
+        const db = new DelayOverlayDb(backend);
+        expect((await db.getTalk("1")).start_datetime).toBe(START + 10 * MINUTE);
+        expect(await db.getDelays("D.other")).toEqual([]);
+
+        expect(await db.clearDelays("D.main")).toBe(1);
+        expect((await db.getTalk("1")).start_datetime).toBe(START);
+        expect((await new DelayOverlayDb(backend).getTalk("1")).start_datetime).toBe(START);
+    });
+});
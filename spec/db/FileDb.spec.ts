@@ -0,0 +1,80 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LogService } from "matrix-bot-sdk";
+import config from "../../src/config";
+import { FileDb } from "../../src/db/FileDb";
+
+const scheduleFile = {
+    talks: [{
+        event_id: 1,
+        conference_room: "D.main",
+        title: "Welcome",
+        start_datetime: "2021-02-06T10:00:00",
+        duration: 30,
+        presentation_length: 20,
+        prerecorded: true,
+    }],
+    people: [{
+        event_id: 1,
+        person_id: "alice",
+        event_role: "speaker",
+        name: "Alice",
+        matrix_id: "@alice:example.org",
+    }],
+};
+
+describe("FileDb", () => {
+    let dataPath: string;
+
+    beforeEach(async () => {
+        // Don't reload the file when the directory is cleaned up after each test
+        jest.useFakeTimers();
+        dataPath = await fs.mkdtemp(path.join(os.tmpdir(), "confbot-"));
+        config.dataPath = dataPath;
+        config.conference.scheduleFile = "schedule.json";
+        config.conference.database.schedulePreBufferSeconds = 0;
+    });
+
+    afterEach(async () => {
+        await fs.rm(dataPath, { recursive: true });
+        jest.useRealTimers();
+    });
+
+    it("reads talks and people from the schedule file", async () => {
+        await fs.writeFile(path.join(dataPath, "schedule.json"), JSON.stringify(scheduleFile));
+        const db = new FileDb();
+
+        const talk = await db.getTalk("1");
+        expect(talk.start_datetime).toBe(Date.parse("2021-02-06T09:00:00Z"));
+        expect(talk.qa_start_datetime).toBe(Date.parse("2021-02-06T09:20:00Z"));
+        expect(talk.end_datetime).toBe(Date.parse("2021-02-06T09:30:00Z"));
+        expect(talk.prerecorded).toBe(true);
+
+        const people = await db.findAllPeopleForTalk("1");
+        expect(people.map(p => [p.person_id, p.matrix_id, p.conference_room])).toEqual([["alice", "@alice:example.org", "D.main"]]);
+    });
+
+    it("rejects invalid times, naming the talk", async () => {
+        const badFile = { ...scheduleFile, talks: [{ ...scheduleFile.talks[0], start_datetime: "2021-02-30T10:00:00" }] };
+        await fs.writeFile(path.join(dataPath, "schedule.json"), JSON.stringify(badFile));
+        jest.spyOn(LogService, "error").mockImplementation();
+        await expect(new FileDb().getTalk("1")).rejects.toThrow(/start_datetime of talk 1/);
+    });
+});
@@ -0,0 +1,92 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import fetch from "node-fetch";
+import config from "../../src/config";
+import { PretalxDb } from "../../src/db/PretalxDb";
+
+jest.mock("node-fetch", () => ({ __esModule: true, default: jest.fn() }));
+
+const feed = {
+    schedule: {
+        conference: {
+            title: "Example Conference",
+            days: [{
+                index: 1,
+                date: "2021-02-06",
+                rooms: {
+                    "Main Hall": [{
+                        id: 1,
+                        date: "2021-02-06T10:00:00+01:00",
+                        start: "10:00",
+                        duration: "00:30",
+                        room: "Main Hall",
+                        slug: "welcome",
+                        title: "Welcome",
+                        persons: [{ code: "ABCDEF", public_name: "Alice" }, { code: "GHIJKL", public_name: "Bob" }],
+                    }],
+                },
+            }],
+        },
+    },
+};
+
+describe("PretalxDb", () => {
+    let dataPath: string;
+
+    beforeEach(async () => {
+        dataPath = await fs.mkdtemp(path.join(os.tmpdir(), "confbot-"));
+        config.dataPath = dataPath;
+        config.conference.pretalxDefinition = "https://pretalx.example.org/schedule.json";
+        config.conference.pretalxQaMinutes = undefined;
+        config.conference.pretalxPeopleFile = undefined;
+        config.conference.database.schedulePreBufferSeconds = 0;
+        (fetch as unknown as jest.Mock).mockResolvedValue({ json: async () => feed });
+    });
+
+    afterEach(async () => {
+        await fs.rm(dataPath, { recursive: true });
+    });
+
+    it("has no Q&A during talks by default", async () => {
+        const talk = await new PretalxDb().getTalk("1");
+        expect(talk.start_datetime).toBe(Date.parse("2021-02-06T09:00:00Z"));
+        expect(talk.end_datetime).toBe(Date.parse("2021-02-06T09:30:00Z"));
+        expect(talk.presentation_length_seconds).toBe(30 * 60);
+        expect(talk.qa_start_datetime).toBe(talk.end_datetime);
+    });
+
+    it("starts the Q&A the configured length before the end of the talk", async () => {
+        config.conference.pretalxQaMinutes = 10;
+        const talk = await new PretalxDb().getTalk("1");
+        expect(talk.presentation_length_seconds).toBe(20 * 60);
+        expect(talk.qa_start_datetime).toBe(Date.parse("2021-02-06T09:20:00Z"));
+    });
+
+    it("reads the contact details of speakers from the people file", async () => {
+        await fs.writeFile(path.join(dataPath, "people.yaml"), 'ABCDEF:\n  email: "alice@example.org"\n  matrix_id: "@alice:example.org"\n');
+        config.conference.pretalxPeopleFile = "people.yaml";
+
+        const people = await new PretalxDb().findAllPeopleForTalk("1");
+        expect(people.map(p => [p.person_id, p.name, p.email, p.matrix_id])).toEqual([
+            ["ABCDEF", "Alice", "alice@example.org", "@alice:example.org"],
+            ["GHIJKL", "Bob", undefined, undefined],
+        ]);
+    });
+});
@@ -0,0 +1,88 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fetch from "node-fetch";
+import config from "../src/config";
+import { verifyOpenIdToken } from "../src/openid";
+
+jest.mock("node-fetch", () => ({ __esModule: true, default: jest.fn() }));
+
+const fetchMock = fetch as unknown as jest.Mock;
+
+/**
+ * Makes the homeserver answer requests for its `.well-known/matrix/server` and OpenID user info.
+ * @param delegated The server it delegates to, if any.
+ * @param userId The user ID the OpenID token is for.
+ */
+function mockHomeserver(delegated: string | undefined, userId: string) {
+    fetchMock.mockImplementation(async (url: string) => {
+        if (url.endsWith("/.well-known/matrix/server")) {
+            return delegated ? { ok: true, json: async () => ({ "m.server": delegated }) } : { ok: false, status: 404 };
+        }
+        return { ok: true, json: async () => ({ sub: userId }) };
+    });
+}
+
+describe("verifyOpenIdToken", () => {
+    afterEach(() => {
+        fetchMock.mockReset();
+        config.webserver.openIdHomeservers = undefined;
+    });
+
+    it("asks the homeserver, or the server it delegates to, who the token is for", async () => {
+        mockHomeserver(undefined, "@alice:example.org");
+        await expect(verifyOpenIdToken({ matrix_server_name: "example.org", access_token: "token" })).resolves.toBe("@alice:example.org");
+        expect(fetchMock.mock.calls[1][0]).toBe("https://example.org:8448/_matrix/federation/v1/openid/userinfo?access_token=token");
+
+        mockHomeserver("matrix.example.org:443", "@alice:example.org");
+        await verifyOpenIdToken({ matrix_server_name: "example.org", access_token: "token" });
+        expect(fetchMock.mock.calls[3][0]).toBe("https://matrix.example.org:443/_matrix/federation/v1/openid/userinfo?access_token=token");
+    });
+
+    it("rejects tokens for users of other homeservers", async () => {
+        mockHomeserver(undefined, "@mallory:evil.example");
+        await expect(verifyOpenIdToken({ matrix_server_name: "example.org", access_token: "token" })).rejects.toThrow(/another server/);
+    });
+
+    it("never contacts homeservers at IP addresses", async () => {
+        mockHomeserver(undefined, "@alice:127.0.0.1");
+        for (const serverName of ["127.0.0.1", "127.0.0.1:8448", "[::1]", "[::1]:8448", "example.org/path"]) {
+            await expect(verifyOpenIdToken({ matrix_server_name: serverName, access_token: "token" })).rejects.toThrow(/Invalid server name/);
+        }
+        expect(fetchMock).not.toHaveBeenCalled();
+
+        mockHomeserver("169.254.169.254:80", "@alice:example.org");
+        await expect(verifyOpenIdToken({ matrix_server_name: "example.org", access_token: "token" })).rejects.toThrow(/Invalid server name/);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("never contacts homeservers at names which resolve to private addresses", async () => {
+        mockHomeserver(undefined, "@alice:example.org");
+        await verifyOpenIdToken({ matrix_server_name: "example.org", access_token: "token" });
+        const { agent, redirect } = fetchMock.mock.calls[1][1];
+        expect(redirect).toBe("error");
+
+        const error = await new Promise(resolve => agent.options.lookup("localhost", {}, resolve));
+        expect(error).toEqual(new Error("localhost resolves to a private address"));
+    });
+
+    it("only accepts tokens from the configured homeservers", async () => {
+        config.webserver.openIdHomeservers = ["example.org"];
+        mockHomeserver(undefined, "@alice:other.example");
+        await expect(verifyOpenIdToken({ matrix_server_name: "other.example", access_token: "token" })).rejects.toThrow(/not accepted/);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
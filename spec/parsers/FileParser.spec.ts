@@ -0,0 +1,76 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import config from "../../src/config";
+import { FileParser } from "../../src/parsers/FileParser";
+import { RoomKind } from "../../src/models/room_kinds";
+
+config.conference.prefixes.nameOverrides = {};
+
+const scheduleFile = `
+title: "Example Meetup"
+rooms: ["S.hallway"]
+talks:
+  - event_id: 1
+    conference_room: "D.main"
+    title: "Welcome to the meetup"
+    start_datetime: "2021-02-06T10:00:00"
+    duration: 30
+  - event_id: 2
+    conference_room: "D.main"
+    title: "Second talk"
+    slug: "second"
+    start_datetime: "2021-02-06T10:30:00Z"
+    duration: "01:00"
+people:
+  - event_id: 1
+    person_id: "alice"
+    event_role: "speaker"
+    name: "Alice"
+  - event_id: 1
+    person_id: "carol"
+    event_role: "host"
+    name: "Carol"
+`;
+
+describe("FileParser", () => {
+    it("parses the rooms, talks and speakers", () => {
+        const parser = new FileParser(scheduleFile);
+        expect(parser.conference.title).toBe("Example Meetup");
+        expect(parser.auditoriums.map(a => [a.id, a.name, a.kind])).toEqual([["D.main", "main", RoomKind.Auditorium]]);
+        expect(parser.interestRooms.map(r => [r.id, r.kind])).toEqual([["S.hallway", RoomKind.SpecialInterest]]);
+
+        const [welcome, second] = parser.talks;
+        expect(welcome.id).toBe("1");
+        expect(welcome.slug).toBe("welcome-to-the-meetup");
+        expect(welcome.speakers.map(s => s.id)).toEqual(["alice"]);
+        expect(second.slug).toBe("second");
+        expect(second.speakers).toEqual([]);
+    });
+
+    it("reads times in the conference timezone unless they have an offset", () => {
+        const [welcome, second] = new FileParser(scheduleFile).talks;
+        expect(welcome.startTime).toBe(Date.parse("2021-02-06T09:00:00Z"));
+        expect(welcome.endTime).toBe(Date.parse("2021-02-06T09:30:00Z"));
+        expect(second.startTime).toBe(Date.parse("2021-02-06T10:30:00Z"));
+        expect(second.endTime).toBe(Date.parse("2021-02-06T11:30:00Z"));
+    });
+
+    it("rejects invalid times, naming the talk", () => {
+        const badFile = scheduleFile.replace('"2021-02-06T10:00:00"', '"tomorrow morning"');
+        expect(() => new FileParser(badFile)).toThrow(/start_datetime of talk 1.*tomorrow morning/);
+    });
+});
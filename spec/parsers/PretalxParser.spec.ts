@@ -0,0 +1,84 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import config from "../../src/config";
+import { PretalxParser } from "../../src/parsers/PretalxParser";
+import { RoomKind } from "../../src/models/room_kinds";
+
+config.conference.prefixes.nameOverrides = {};
+
+const feed = {
+    schedule: {
+        conference: {
+            title: "Example Conference",
+            days: [{
+                index: 1,
+                date: "2021-02-06",
+                rooms: {
+                    "Main Hall": [{
+                        id: 1,
+                        date: "2021-02-06T10:00:00+01:00",
+                        start: "10:00",
+                        duration: "00:30",
+                        room: "Main Hall",
+                        slug: "welcome",
+                        title: "Welcome",
+                        persons: [{ code: "ABCDEF", public_name: "Alice" }],
+                    }],
+                    "D.devroom": [{
+                        id: 2,
+                        start: "11:00",
+                        duration: "01:00",
+                        room: "D.devroom",
+                        slug: "devroom-talk",
+                        title: "Devroom talk",
+                        persons: [{ code: "ABCDEF", public_name: "Alice" }, { code: "GHIJKL", name: "Bob" }],
+                    }],
+                    "S.hallway": [],
+                },
+            }],
+        },
+    },
+};
+
+describe("PretalxParser", () => {
+    const parser = new PretalxParser(JSON.stringify(feed));
+
+    it("treats rooms as auditoriums unless they have an interest room prefix", () => {
+        expect(parser.auditoriums.map(a => [a.id, a.name, a.kind])).toEqual([
+            ["Main Hall", "Main Hall", RoomKind.Auditorium],
+            ["D.devroom", "devroom", RoomKind.Auditorium],
+        ]);
+        expect(parser.interestRooms.map(r => [r.id, r.name, r.kind])).toEqual([
+            ["S.hallway", "hallway", RoomKind.SpecialInterest],
+        ]);
+    });
+
+    it("times talks from their date, or from the day they are listed under", () => {
+        const welcome = parser.talks.find(t => t.id === "1");
+        expect(welcome.startTime).toBe(Date.parse("2021-02-06T09:00:00Z"));
+        expect(welcome.endTime).toBe(Date.parse("2021-02-06T09:30:00Z"));
+
+        const devroomTalk = parser.talks.find(t => t.id === "2");
+        expect(devroomTalk.endTime - devroomTalk.startTime).toBe(60 * 60 * 1000);
+    });
+
+    it("shares speakers between talks by their speaker code", () => {
+        expect(parser.speakers.map(s => [s.id, s.name])).toEqual([["ABCDEF", "Alice"], ["GHIJKL", "Bob"]]);
+        const devroomTalk = parser.talks.find(t => t.id === "2");
+        expect(devroomTalk.speakers[0]).toBe(parser.speakers[0]);
+    });
+});
@@ -0,0 +1,52 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Request, Response } from "express";
+import { rateLimit } from "../src/rateLimit";
+import { MINUTE } from "./util";
+
+describe("rateLimit", () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    /**
+     * Makes a request through the middleware.
+     * @returns The status code it responded with, or 200 if it let the request through.
+     */
+    function request(middleware: ReturnType<typeof rateLimit>, ip: string): number {
+        let status = 200;
+        const res = {
+            set: jest.fn(),
+            sendStatus: (code: number) => status = code,
+        };
+        middleware({ ip } as Request, res as unknown as Response, () => undefined);
+        return status;
+    }
+
+    it("limits each client to the given number of requests in each window", () => {
+        const middleware = rateLimit("test", 2, MINUTE);
+        expect([1, 2, 3].map(() => request(middleware, "192.0.2.1"))).toEqual([200, 200, 429]);
+        expect(request(middleware, "192.0.2.2")).toBe(200);
+
+        jest.advanceTimersByTime(MINUTE);
+        expect(request(middleware, "192.0.2.1")).toBe(200);
+    });
+});
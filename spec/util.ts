@@ -0,0 +1,100 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { AvailableBackends } from "../src/config";
+import { IDbPerson } from "../src/db/DbPerson";
+import { IDbTalk } from "../src/db/DbTalk";
+import { DBBackend } from "../src/db/backendDb";
+
+export const MINUTE = 60 * 1000;
+
+/**
+ * Makes a pre-recorded 30 minute talk, with 10 minutes of Q&A at the end.
+ * @param eventId The ID of the talk.
+ * @param conferenceRoom The ID of the auditorium the talk is in.
+ * @param start The start time of the talk, as a Unix timestamp in milliseconds.
+ * @returns The talk.
+ */
+export function makeTalk(eventId: string, conferenceRoom: string, start: number): IDbTalk {
+    return {
+        event_id: eventId,
+        conference_room: conferenceRoom,
+        start_datetime: start,
+        duration_seconds: 30 * 60,
+        presentation_length_seconds: 20 * 60,
+        end_datetime: start + 30 * MINUTE,
+        qa_start_datetime: start + 20 * MINUTE,
+        livestream_start_datetime: start,
+        livestream_end_datetime: start + 29 * MINUTE,
+        prerecorded: true,
+    };
+}
+
+/**
+ * A backend which answers schedule queries from a list of talks, like the real backends do.
+ */
+export class InMemoryBackend implements DBBackend {
+    constructor(public talks: IDbTalk[] = [], public people: IDbPerson[] = []) {
+    }
+
+    public getSystemName(): AvailableBackends {
+        return "file";
+    }
+
+    public async findPeopleWithId(personId: string): Promise<IDbPerson[]> {
+        return this.people.filter(p => p.person_id === personId);
+    }
+
+    public async findAllPeopleForAuditorium(auditoriumId: string): Promise<IDbPerson[]> {
+        return this.people.filter(p => p.conference_room === auditoriumId);
+    }
+
+    public async findAllPeopleForTalk(talkId: string): Promise<IDbPerson[]> {
+        return this.people.filter(p => p.event_id === talkId);
+    }
+
+    public async findAllPeopleWithRemark(remark: string): Promise<IDbPerson[]> {
+        return this.people.filter(p => p.remark === remark);
+    }
+
+    public async getUpcomingTalkStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.start_datetime, inNextMinutes, minBefore);
+    }
+
+    public async getUpcomingQAStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.qa_start_datetime, inNextMinutes, minBefore);
+    }
+
+    public async getUpcomingTalkEnds(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.end_datetime, inNextMinutes, minBefore);
+    }
+
+    public async getTalk(talkId: string): Promise<IDbTalk | undefined> {
+        const talk = this.talks.find(t => t.event_id === talkId);
+        return talk ? { ...talk } : undefined;
+    }
+
+    public async ping(): Promise<void> {
+        // Always readable
+    }
+
+    private getTalksWithin(timeFn: (talk: IDbTalk) => number, inNextMinutes: number, minBefore: number): IDbTalk[] {
+        const now = Date.now();
+        const from = now - minBefore * MINUTE;
+        const to = now + inNextMinutes * MINUTE;
+        return this.talks.filter(t => timeFn(t) >= from && timeFn(t) <= to).map(t => ({ ...t }));
+    }
+}
@@ -19,56 +19,143 @@ import AwaitLock from "await-lock";
 import { promises as fs } from "node:fs";
 import * as path from "node:path";
 import config from "./config";
+import { Conference } from "./Conference";
+import { IDbPerson, Role } from "./db/DbPerson";
+import { CheckinAlertStatus } from "./CheckinAlerts";
+import { writeFileAtomically } from "./utils";
+
+export const CHECKIN_COMMAND = "!checkin";
+
+// How far ahead to show talks in the check-in status.
+const STATUS_WINDOW_MINUTES = 2 * 60;
+
+export enum CheckinMethod {
+    Reaction = "reaction", // reacted to one of the bot's check-in prompts
+    Command = "command", // sent !checkin
+}
 
 interface ICheckin {
-    expires: number;
+    checkedInAt: number; // ms timestamp, utc
+    method: CheckinMethod;
 }
 
-const CHECKIN_TIME = 4 * 60 * 60 * 1000; // 4 hours
+interface ITalkCheckins {
+    roomId: string; // the room people check in from
+    expected: string[];
+    promptEventIds: string[];
+    checkedIn: { [userId: string]: ICheckin };
+}
+
+interface ICheckinsJson {
+    version: number;
+    talks: { [talkId: string]: ITalkCheckins };
+}
+
+export interface IPersonCheckinStatus {
+    name?: string; // not known for people who checked in without being listed for the talk
+    role?: Role;
+    userId?: string; // not set if the person has no known Matrix ID
+    checkedIn: boolean;
+    checkedInAt?: number; // ms timestamp, utc
+    method?: CheckinMethod;
+}
+
+export interface ITalkCheckinStatus {
+    talkId: string;
+    auditoriumId: string;
+    title: string;
+    startTime: number; // ms timestamp, utc
+    people: IPersonCheckinStatus[];
+    alert?: CheckinAlertStatus;
+}
+
+function getPersonStatus(checkins: ITalkCheckins | undefined, userId: string | undefined): IPersonCheckinStatus {
+    const checkin = userId ? checkins?.checkedIn[userId] : undefined;
+    return { userId, checkedIn: !!checkin, checkedInAt: checkin?.checkedInAt, method: checkin?.method };
+}
 
+/**
+ * Tracks which speakers and hosts have checked in for their talks. Check-ins are per talk: people
+ * check in by reacting to one of the bot's check-in prompts, or by sending !checkin in the talk
+ * room.
+ */
 export class CheckInMap {
-    private checkedIn: { [userId: string]: ICheckin; } = {};
+    private static readonly JSON_FORMAT_VERSION = 2;
+
+    private byTalk: { [talkId: string]: ITalkCheckins; } = {};
     private lock = new AwaitLock();
 
-    constructor(private client: MatrixClient) {
+    constructor(private client: MatrixClient, private conference: Conference) {
         this.client.on('room.event', async (roomId: string, event: any) => {
-            if (!this.checkedIn[event['sender']]) return;
-
-            if (event['type'] === 'm.room.message' || event['type'] === 'm.reaction') {
-                await this.lock.acquireAsync();
-                try {
-                    this.checkedIn[event['sender']] = { expires: Date.now() + CHECKIN_TIME };
-                    await this.persist();
-                } finally {
-                    this.lock.release();
-                }
+            if (event['type'] !== 'm.reaction') return;
+            const relation = event['content']?.['m.relates_to'];
+            if (relation?.['rel_type'] !== 'm.annotation') return;
+
+            const talkId = Object.keys(this.byTalk).find(id => this.byTalk[id].promptEventIds.includes(relation['event_id']));
+            if (!talkId || !this.byTalk[talkId].expected.includes(event['sender'])) return;
+            try {
+                await this.checkIn(talkId, event['sender'], CheckinMethod.Reaction);
+            } catch (error) {
+                LogService.error("CheckInMap", error);
+            }
+        });
+        this.client.on('room.message', async (roomId: string, event: any) => {
+            if (event['content']?.['body']?.trim() !== CHECKIN_COMMAND) return;
+            try {
+                await this.handleCheckinCommand(roomId, event);
+            } catch (error) {
+                LogService.error("CheckInMap", error);
             }
         });
         this.load();
     }
 
     private async persist() {
-        await fs.writeFile(path.join(config.dataPath, "checkins.json"), JSON.stringify(this.checkedIn), "utf-8");
+        const json: ICheckinsJson = {
+            version: CheckInMap.JSON_FORMAT_VERSION,
+            talks: this.byTalk,
+        };
+        await writeFileAtomically(path.join(config.dataPath, "checkins.json"), JSON.stringify(json));
     }
 
     private async load() {
         try {
             await this.lock.acquireAsync();
             const str = await fs.readFile(path.join(config.dataPath, "checkins.json"), "utf-8");
-            this.checkedIn = JSON.parse(str || "{}");
+            const json: ICheckinsJson = JSON.parse(str || "{}");
+            if (json.version === CheckInMap.JSON_FORMAT_VERSION) {
+                this.byTalk = json.talks;
+            } else {
+                // Check-ins used to be global rather than per talk, and can't be carried over
+                LogService.warn("CheckInMap", `Ignoring check-ins in format version ${json.version}`);
+            }
         } catch (error) {
-            LogService.error("CheckInMap", error);
+            if (error?.code !== "ENOENT") LogService.error("CheckInMap", error);
         } finally {
             this.lock.release();
         }
     }
 
-    public async expectCheckinFrom(userIds: string[]) {
+    private getOrCreateTalk(talkId: string, roomId: string): ITalkCheckins {
+        if (!this.byTalk[talkId]) {
+            this.byTalk[talkId] = { roomId, expected: [], promptEventIds: [], checkedIn: {} };
+        }
+        return this.byTalk[talkId];
+    }
+
+    /**
+     * Expects people to check in for a talk.
+     * @param talkId The ID of the talk.
+     * @param roomId The room the people check in from.
+     * @param userIds The people.
+     */
+    public async expectCheckinFrom(talkId: string, roomId: string, userIds: string[]) {
         await this.lock.acquireAsync();
         try {
+            const talk = this.getOrCreateTalk(talkId, roomId);
             for (const userId of userIds) {
-                if (this.checkedIn[userId]) continue;
-                this.checkedIn[userId] = { expires: 0 };
+                if (talk.expected.includes(userId)) continue;
+                talk.expected.push(userId);
             }
             await this.persist();
         } finally {
@@ -76,19 +163,152 @@ export class CheckInMap {
         }
     }
 
-    public async extendCheckin(userId: string) {
+    /**
+     * Records a check-in prompt, so that people can check in by reacting to it.
+     * @param talkId The ID of the talk.
+     * @param roomId The room the prompt was sent to.
+     * @param eventId The event ID of the prompt.
+     */
+    public async addPrompt(talkId: string, roomId: string, eventId: string) {
+        await this.lock.acquireAsync();
+        try {
+            this.getOrCreateTalk(talkId, roomId).promptEventIds.push(eventId);
+            await this.persist();
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    /**
+     * Checks someone in for a talk. Nothing happens if they have already checked in.
+     * @param talkId The ID of the talk.
+     * @param userId The person.
+     * @param method How the person checked in.
+     */
+    public async checkIn(talkId: string, userId: string, method: CheckinMethod) {
         await this.lock.acquireAsync();
         try {
-            if (!this.checkedIn[userId]) return;
-            this.checkedIn[userId] = { expires: Date.now() + CHECKIN_TIME };
+            const talk = this.byTalk[talkId];
+            if (!talk || talk.checkedIn[userId]) return;
+            if (!talk.expected.includes(userId)) talk.expected.push(userId);
+            talk.checkedIn[userId] = { checkedInAt: Date.now(), method };
             await this.persist();
         } finally {
             this.lock.release();
         }
+        LogService.info("CheckInMap", `${userId} checked in for ${talkId} by ${method}`);
+    }
+
+    public isCheckedIn(talkId: string, userId: string): boolean {
+        return !!this.byTalk[talkId]?.checkedIn[userId];
+    }
+
+    /**
+     * Counts the people who are expected to check in for talks, for metrics.
+     * @returns The number of people who haven't checked in yet, and the number who have by each
+     * method, over all talks.
+     */
+    public getCounts(): { waiting: number, checkedIn: { [method in CheckinMethod]: number } } {
+        const counts = { waiting: 0, checkedIn: { [CheckinMethod.Reaction]: 0, [CheckinMethod.Command]: 0 } };
+        for (const talk of Object.values(this.byTalk)) {
+            for (const userId of talk.expected) {
+                const checkin = talk.checkedIn[userId];
+                if (checkin) {
+                    counts.checkedIn[checkin.method]++;
+                } else {
+                    counts.waiting++;
+                }
+            }
+        }
+        return counts;
+    }
+
+    /**
+     * Checks someone in after they sent !checkin. In a talk room, they check in for the talk if
+     * they are one of its speakers or hosts. Elsewhere, such as in interest rooms, they check in
+     * for any talks which are expecting them to check in from that room.
+     * @param roomId The room the command was sent in.
+     * @param event The command.
+     */
+    private async handleCheckinCommand(roomId: string, event: any) {
+        const userId = event['sender'];
+        const talkIds = Object.keys(this.byTalk)
+            .filter(id => this.byTalk[id].roomId === roomId && this.byTalk[id].expected.includes(userId));
+
+        const talk = this.conference.storedTalks.find(t => t.roomId === roomId);
+        if (talk) {
+            const talkId = await talk.getId();
+            const people = await this.conference.getPeopleForTalk(talk);
+            const isRequired = people.some(p => p.matrix_id === userId && (p.event_role === Role.Speaker || p.event_role === Role.Host));
+            if (isRequired && !talkIds.includes(talkId)) {
+                await this.expectCheckinFrom(talkId, roomId, [userId]);
+                talkIds.push(talkId);
+            }
+        }
+
+        if (talkIds.length === 0) {
+            await this.client.replyNotice(roomId, event, "You don't need to check in for anything in this room.");
+            return;
+        }
+        for (const talkId of talkIds) {
+            await this.checkIn(talkId, userId, CheckinMethod.Command);
+        }
+        await this.client.unstableApis.addReactionToEvent(roomId, event['event_id'], '✅');
     }
 
-    public isCheckedIn(userId: string): boolean {
-        const checkin = this.checkedIn[userId];
-        return checkin && checkin.expires >= Date.now();
+    /**
+     * Gets the check-in status of the speakers and hosts of each talk which is about to start.
+     * @param auditoriumId The auditorium or interest room to get talks for, or `undefined` for
+     * all of them.
+     * @returns The talks, in the order they start.
+     */
+    public async getUpcomingStatus(auditoriumId?: string): Promise<ITalkCheckinStatus[]> {
+        const db = await this.conference.getBackendDb();
+        const talks = await db.getUpcomingTalkStarts(STATUS_WINDOW_MINUTES, 0);
+        talks.sort((a, b) => a.start_datetime - b.start_datetime);
+
+        const statuses: ITalkCheckinStatus[] = [];
+        for (const dbTalk of talks) {
+            if (auditoriumId !== undefined && dbTalk.conference_room !== auditoriumId) continue;
+
+            let title: string;
+            let people: IDbPerson[];
+            const talk = this.conference.getTalk(dbTalk.event_id);
+            const interestRoom = this.conference.getInterestRoom(dbTalk.conference_room);
+            if (talk) {
+                const definition = await talk.getDefinition();
+                title = definition.title;
+                people = await this.conference.getInviteTargetsForTalk(talk);
+            } else if (interestRoom) {
+                title = await interestRoom.getName();
+                people = await this.conference.getInviteTargetsForInterest(interestRoom);
+            } else {
+                continue;
+            }
+
+            const checkins = this.byTalk[dbTalk.event_id];
+            const required = people.filter(p => p.event_role === Role.Speaker || p.event_role === Role.Host);
+            const personStatuses: IPersonCheckinStatus[] = required.map(p => ({
+                name: p.name,
+                role: p.event_role,
+                ...getPersonStatus(checkins, p.matrix_id || undefined),
+            }));
+            // People whose Matrix IDs were looked up from their email addresses aren't listed
+            // with a Matrix ID, so show their check-ins separately.
+            for (const userId of Object.keys(checkins?.checkedIn ?? {})) {
+                if (personStatuses.some(p => p.userId === userId)) continue;
+                personStatuses.push(getPersonStatus(checkins, userId));
+            }
+
+            statuses.push({
+                talkId: dbTalk.event_id,
+                auditoriumId: dbTalk.conference_room,
+                title: title,
+                startTime: dbTalk.start_datetime,
+                people: personStatuses,
+                alert: config.RUNTIME.checkinAlerts.getAlert(dbTalk.event_id)?.status,
+            });
+        }
+        return statuses;
     }
 }
@@ -0,0 +1,192 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { LogService, MatrixClient } from "matrix-bot-sdk";
+import { PowerLevelAction } from "matrix-bot-sdk/lib/models/PowerLevelAction";
+import AwaitLock from "await-lock";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import config from "./config";
+import { isEmojiVariant, writeFileAtomically } from "./utils";
+
+export const ACKNOWLEDGE_REACTION = "👀";
+export const RESOLVE_REACTION = "✅";
+
+export enum CheckinAlertStatus {
+    Open = "open",
+    Acknowledged = "acknowledged",
+    Resolved = "resolved",
+}
+
+/**
+ * An alert that a talk is at risk because its speakers or hosts haven't checked in.
+ */
+export interface ICheckinAlert {
+    talkId: string;
+    auditoriumId: string;
+    startTime: number; // ms timestamp, utc
+    missingNames: string[];
+    missingUserIds: string[]; // only the missing people whose Matrix IDs are known
+    status: CheckinAlertStatus;
+    raisedAt: number; // ms timestamp, utc
+    updatedAt: number; // ms timestamp, utc
+    updatedBy?: string; // the user who last acknowledged or resolved the alert
+    eventIds: { [roomId: string]: string }; // the escalation messages, which may be reacted to
+}
+
+export type NewCheckinAlert = Omit<ICheckinAlert, "status" | "raisedAt" | "updatedAt" | "updatedBy">;
+
+/**
+ * Tracks talks which are at risk because people haven't checked in for them. Coordinators
+ * acknowledge an alert by reacting to one of its escalation messages with 👀, and resolve it by
+ * reacting with ✅.
+ */
+export class CheckinAlerts {
+    private alerts: { [talkId: string]: ICheckinAlert } = {};
+    private lock = new AwaitLock();
+
+    constructor(private client: MatrixClient) {
+        this.client.on("room.event", async (roomId: string, event: any) => {
+            if (event['type'] !== 'm.reaction') return;
+            await this.tryUpdateFromReaction(roomId, event);
+        });
+        this.load();
+    }
+
+    private async persist() {
+        await writeFileAtomically(path.join(config.dataPath, "checkin_alerts.json"), JSON.stringify(this.alerts));
+    }
+
+    private async load() {
+        await this.lock.acquireAsync();
+        try {
+            const str = await fs.readFile(path.join(config.dataPath, "checkin_alerts.json"), "utf-8");
+            this.alerts = JSON.parse(str || "{}");
+        } catch (error) {
+            if (error?.code !== "ENOENT") LogService.error("CheckinAlerts", error);
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    /**
+     * Raises an alert for a talk, replacing any previous alert for it.
+     * @param alert The alert.
+     */
+    public async raise(alert: NewCheckinAlert) {
+        await this.lock.acquireAsync();
+        try {
+            const now = Date.now();
+            this.alerts[alert.talkId] = {
+                ...alert,
+                status: CheckinAlertStatus.Open,
+                raisedAt: now,
+                updatedAt: now,
+            };
+            await this.persist();
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    /**
+     * Acknowledges or resolves the alert for a talk.
+     * @param talkId The ID of the talk.
+     * @param status The new status of the alert.
+     * @param userId The user who is updating the alert.
+     * @returns The updated alert, if the talk has one; `undefined` otherwise.
+     */
+    public async update(talkId: string, status: CheckinAlertStatus, userId: string): Promise<ICheckinAlert | undefined> {
+        await this.lock.acquireAsync();
+        try {
+            const alert = this.alerts[talkId];
+            if (!alert) return undefined;
+            alert.status = status;
+            alert.updatedAt = Date.now();
+            alert.updatedBy = userId;
+            await this.persist();
+            return alert;
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    /**
+     * Gets the alert for a talk.
+     * @param talkId The ID of the talk.
+     * @returns The alert, if the talk has one; `undefined` otherwise.
+     */
+    public getAlert(talkId: string): ICheckinAlert | undefined {
+        return this.alerts[talkId];
+    }
+
+    /**
+     * Gets the alerts for talks which are at risk.
+     * @param includeResolved Whether to include alerts which have been resolved.
+     * @returns The alerts, ordered by the start time of their talks.
+     */
+    public getAlerts(includeResolved = false): ICheckinAlert[] {
+        return Object.values(this.alerts)
+            .filter(a => includeResolved || a.status !== CheckinAlertStatus.Resolved)
+            .sort((a, b) => a.startTime - b.startTime);
+    }
+
+    /**
+     * Determines whether someone may acknowledge or resolve an alert from a room. They must be one
+     * of the coordinators of the talk's auditorium, or be able to moderate the room.
+     * @param userId The user.
+     * @param roomId The room the user reacted in.
+     * @param alert The alert.
+     * @returns Whether the user may update the alert.
+     */
+    private async isCoordinator(userId: string, roomId: string, alert: ICheckinAlert): Promise<boolean> {
+        const auditorium = config.RUNTIME.conference.getAuditorium(alert.auditoriumId);
+        if (auditorium) {
+            const coordinators = await config.RUNTIME.conference.getModeratorsForAuditorium(auditorium);
+            if (coordinators.some(p => p.matrix_id === userId)) return true;
+        }
+        return await this.client.userHasPowerLevelForAction(userId, roomId, PowerLevelAction.Kick);
+    }
+
+    private async tryUpdateFromReaction(roomId: string, event: any) {
+        const relation = event['content']?.['m.relates_to'];
+        if (relation?.['rel_type'] !== 'm.annotation') return;
+        if (typeof (relation['key']) !== 'string') return;
+
+        let status: CheckinAlertStatus;
+        if (isEmojiVariant(ACKNOWLEDGE_REACTION, relation['key'])) {
+            status = CheckinAlertStatus.Acknowledged;
+        } else if (isEmojiVariant(RESOLVE_REACTION, relation['key'])) {
+            status = CheckinAlertStatus.Resolved;
+        } else {
+            return;
+        }
+
+        const alert = Object.values(this.alerts).find(a => a.eventIds[roomId] === relation['event_id']);
+        if (!alert || alert.status === status || alert.status === CheckinAlertStatus.Resolved) return;
+
+        try {
+            if (!await this.isCoordinator(event['sender'], roomId, alert)) {
+                LogService.info("CheckinAlerts", `Ignoring ${relation['key']} from ${event['sender']}, who isn't a coordinator for ${alert.auditoriumId}`);
+                return;
+            }
+            await this.update(alert.talkId, status, event['sender']);
+            await this.client.sendNotice(roomId, `${event['sender']} has ${status} the check-in alert for ${alert.talkId}.`);
+        } catch (error) {
+            LogService.error("CheckinAlerts", error);
+        }
+    }
+}
@@ -32,6 +32,7 @@ import { IAuditorium, IConference, IInterestRoom, ITalk } from "./models/schedul
 import {
     IStoredPerson,
     IStoredSubspace,
+    IStoredTalk,
     makeParentRoom,
     makeStoredAuditorium,
     makeStoredConference, makeStoredInterestRoom,
@@ -41,6 +42,7 @@ import {
     RS_3PID_PERSON_ID,
     RS_STORED_PERSON,
     RS_STORED_SUBSPACE,
+    RS_STORED_TALK,
 } from "./models/room_state";
 import { makeDisplayName, objectFastClone, safeCreateRoom } from "./utils";
 import { assignAliasVariations, makeLocalpart } from "./utils/aliases";
@@ -55,10 +57,14 @@ import { InterestRoom } from "./models/InterestRoom";
 import { IStateEvent } from "./models/room_state";
 import { IDbTalk } from "./db/DbTalk";
 import { DBBackend, getBackendDB } from "./db/backendDb";
+import { DelayOverlayDb } from "./db/DelayOverlayDb";
+import { InstrumentedDb } from "./db/InstrumentedDb";
+import { LiveWidget } from "./models/LiveWidget";
 
 export class Conference {
     private dbRoom: MatrixRoom;
-    private backendDb = getBackendDB();
+    private isConstructed = false;
+    private backendDb = new DelayOverlayDb(new InstrumentedDb(getBackendDB()));
     private subspaces: {
         [subspaceId: string]: Space;
     } = {};
@@ -137,6 +143,14 @@ export class Conference {
         return !!this.dbRoom;
     }
 
+    /**
+     * Whether the conference's rooms have been located since the bot started or the conference was
+     * last rebuilt. Until then the conference appears to have no rooms.
+     */
+    public get hasConstructed(): boolean {
+        return this.isConstructed;
+    }
+
     public get storedTalks(): Talk[] {
         return Object.values(this.talks);
     }
@@ -158,6 +172,7 @@ export class Conference {
     }
 
     private reset() {
+        this.isConstructed = false;
         this.dbRoom = undefined;
         this.subspaces = {};
         this.auditoriums = {};
@@ -169,7 +184,11 @@ export class Conference {
 
     public async construct() {
         this.reset();
+        await this.locate();
+        this.isConstructed = true;
+    }
 
+    private async locate() {
         // Locate all the rooms for the conference
         const roomIds = await this.client.getJoinedRooms();
         const batchSize = 20;
@@ -284,6 +303,14 @@ export class Conference {
         return this.backendDb;
     }
 
+    /**
+     * Gets the backend's overlay of delays made to the schedule at runtime.
+     * @returns The overlay, which is also the backend returned by `getBackendDb`.
+     */
+    public getScheduleDelays(): DelayOverlayDb {
+        return this.backendDb;
+    }
+
     public async getSpace(): Promise<Space> {
         return this.dbRoom.getSpace();
     }
@@ -524,6 +551,110 @@ export class Conference {
         return this.talks[talk.id];
     }
 
+    /**
+     * Updates an existing talk room to match its description in the schedule. If the talk has
+     * changed auditoriums, it is moved into the new auditorium's space.
+     * @param talk The description of the talk.
+     * @param auditorium The auditorium the talk is now held in.
+     * @returns The updated `Talk`.
+     */
+    public async updateTalk(talk: ITalk, auditorium: Auditorium): Promise<Talk> {
+        const existingTalk = this.talks[talk.id];
+        if (!existingTalk) {
+            throw new Error(`The room for talk ${talk.id} has not been created yet`);
+        }
+        const roomId = existingTalk.roomId;
+        const oldAuditoriumId = await existingTalk.getAuditoriumId();
+        const newAuditoriumId = await auditorium.getId();
+
+        // Widget IDs are derived from the talk definition, so look up the current widgets before
+        // the definition changes.
+        const oldWidget = await LiveWidget.forTalk(existingTalk, this.client);
+        const oldScoreboard = await LiveWidget.scoreboardForTalk(existingTalk, this.client);
+        const hasWidget = await this.hasStateEvent(roomId, oldWidget.type, oldWidget.state_key);
+        const hasScoreboard = await this.hasStateEvent(roomId, oldScoreboard.type, oldScoreboard.state_key);
+
+        const storedTalk = makeStoredTalk(this.id, talk);
+        storedTalk.content.auditoriumId = newAuditoriumId;
+        await this.client.sendStateEvent(roomId, storedTalk.type, storedTalk.state_key, storedTalk.content);
+        await this.client.sendStateEvent(roomId, "m.room.name", "", { name: talk.title });
+
+        if (oldAuditoriumId !== newAuditoriumId) {
+            const oldAuditorium = this.auditoriums[oldAuditoriumId];
+            if (oldAuditorium) {
+                await oldAuditorium.removeDirectChild(roomId);
+                const oldSpace = await oldAuditorium.getSpace();
+                await oldSpace.removeChildRoom(roomId);
+            }
+            const parentRoom = makeParentRoom(auditorium.roomId);
+            await this.client.sendStateEvent(roomId, parentRoom.type, parentRoom.state_key, parentRoom.content);
+        }
+
+        // Replace the `Talk` so that the new definition is picked up from the room state.
+        this.talks[talk.id] = new Talk(roomId, this.client, this);
+
+        // Ensure that the room appears within the correct space, in the correct order.
+        await auditorium.addDirectChild(roomId);
+        const startTime = new Date(talk.startTime).toISOString();
+        const space = await auditorium.getSpace();
+        await space.addChildRoom(roomId, { order: `3-talk-${startTime}` });
+
+        if (hasWidget) {
+            const widget = await LiveWidget.forTalk(this.talks[talk.id], this.client);
+            const scoreboard = hasScoreboard ? await LiveWidget.scoreboardForTalk(this.talks[talk.id], this.client) : undefined;
+            const layout = LiveWidget.layoutForTalk(widget, scoreboard);
+            if (widget.state_key !== oldWidget.state_key) {
+                await this.client.sendStateEvent(roomId, oldWidget.type, oldWidget.state_key, {});
+            }
+            await this.client.sendStateEvent(roomId, widget.type, widget.state_key, widget.content);
+            if (scoreboard) {
+                if (scoreboard.state_key !== oldScoreboard.state_key) {
+                    await this.client.sendStateEvent(roomId, oldScoreboard.type, oldScoreboard.state_key, {});
+                }
+                await this.client.sendStateEvent(roomId, scoreboard.type, scoreboard.state_key, scoreboard.content);
+            }
+            await this.client.sendStateEvent(roomId, layout.type, layout.state_key, layout.content);
+        }
+
+        return this.talks[talk.id];
+    }
+
+    /**
+     * Marks a talk as cancelled, once it has been removed from the schedule. The room is kept so
+     * that its history remains available, and the scheduler will no longer act on the talk.
+     * @param talkId The ID of the talk.
+     * @returns The updated `Talk`.
+     */
+    public async cancelTalk(talkId: string): Promise<Talk> {
+        const existingTalk = this.talks[talkId];
+        if (!existingTalk) {
+            throw new Error(`The room for talk ${talkId} has not been created yet`);
+        }
+        const roomId = existingTalk.roomId;
+
+        const definition: IStoredTalk = {
+            ...(await existingTalk.getDefinition()),
+            auditoriumId: await existingTalk.getAuditoriumId(),
+            cancelled: true,
+        };
+        await this.client.sendStateEvent(roomId, RS_STORED_TALK, talkId, definition);
+        await this.client.sendStateEvent(roomId, "m.room.name", "", { name: `[Cancelled] ${definition.title}` });
+        await this.client.sendHtmlNotice(roomId, "<h3>This talk has been removed from the schedule.</h3>");
+
+        this.talks[talkId] = new Talk(roomId, this.client, this);
+        return this.talks[talkId];
+    }
+
+    private async hasStateEvent(roomId: string, type: string, stateKey: string): Promise<boolean> {
+        try {
+            const content = await this.client.getRoomStateEvent(roomId, type, stateKey);
+            return !!content && Object.keys(content).length > 0;
+        } catch (error) {
+            if (error.statusCode === 404) return false;
+            throw error;
+        }
+    }
+
     public async createUpdatePerson(person: IDbPerson): Promise<IStoredPerson> {
         const storedPerson = makeStoredPerson(this.id, person);
         await this.client.sendStateEvent(this.dbRoom.roomId, storedPerson.type, storedPerson.state_key, storedPerson.content);
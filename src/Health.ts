@@ -0,0 +1,161 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { SimpleFsStorageProvider } from "matrix-bot-sdk";
+import { Conference } from "./Conference";
+import { Scheduler } from "./Scheduler";
+import { IRCBridge } from "./IRCBridge";
+
+// How long the bot has to start up before missing syncs and scheduler runs count against it.
+const STARTUP_GRACE_MS = 15 * 60 * 1000;
+
+// How long since the last successful sync before the sync loop is considered wedged. Syncs long
+// poll for 30 seconds, and are retried with backoff when they fail.
+const SYNC_STALE_MS = 5 * 60 * 1000;
+
+// How long since the scheduler last ran its tasks before it is considered wedged. It runs them
+// at least every 5 minutes.
+const SCHEDULER_STALE_MS = 15 * 60 * 1000;
+
+// How long to wait for the schedule backend to answer.
+const DB_PING_TIMEOUT_MS = 10 * 1000;
+
+export type HealthStatus = "ok" | "failing";
+
+export interface IComponentHealth {
+    status: HealthStatus;
+    detail?: string;
+    lastSuccessAt?: number; // ms timestamp, utc
+}
+
+export interface IHealthReport {
+    status: HealthStatus; // "failing" if any component is failing
+    checkedAt: number; // ms timestamp, utc
+    components: { [component: string]: IComponentHealth };
+}
+
+/**
+ * A storage provider which remembers when the sync loop last completed a sync. The SDK saves the
+ * sync token after every successful sync, and doesn't otherwise tell us about them.
+ */
+export class SyncTrackingStorageProvider extends SimpleFsStorageProvider {
+    public lastSyncAt?: number; // ms timestamp, utc
+
+    public setSyncToken(token: string | null): void {
+        super.setSyncToken(token);
+        if (token) this.lastSyncAt = Date.now();
+    }
+}
+
+function makeReport(components: { [component: string]: IComponentHealth }): IHealthReport {
+    const failing = Object.values(components).some(c => c.status !== "ok");
+    return {
+        status: failing ? "failing" : "ok",
+        checkedAt: Date.now(),
+        components,
+    };
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Checks the health of the bot's components, for the orchestrator running it. Liveness covers
+ * the loops which only a restart will fix when they get stuck, while readiness also covers the
+ * services which the bot depends on.
+ */
+export class Health {
+    private readonly startedAt = Date.now();
+
+    constructor(
+        private readonly storage: SyncTrackingStorageProvider,
+        private readonly conference: Conference,
+        private readonly scheduler: Scheduler,
+        private readonly ircBridge: IRCBridge,
+    ) { }
+
+    /**
+     * Checks whether the bot is alive: that it is still syncing and still running scheduled tasks.
+     * @returns The health of each of those components.
+     */
+    public getLiveness(): IHealthReport {
+        return makeReport({
+            sync: this.checkRecent(this.storage.lastSyncAt, SYNC_STALE_MS, "sync"),
+            scheduler: this.checkRecent(this.scheduler.lastRunCompletedAt, SCHEDULER_STALE_MS, "scheduler run"),
+        });
+    }
+
+    /**
+     * Checks whether the bot is ready to run the conference: that it is alive, has found the
+     * conference's rooms, and can reach the schedule and the IRC bridge.
+     * @returns The health of each component.
+     */
+    public async getReadiness(): Promise<IHealthReport> {
+        const liveness = this.getLiveness();
+        return makeReport({
+            ...liveness.components,
+            conference: this.conference.hasConstructed
+                ? { status: "ok" }
+                : { status: "failing", detail: "Still locating the conference's rooms" },
+            database: await this.checkDatabase(),
+            ircBridge: this.checkIrcBridge(),
+        });
+    }
+
+    private checkRecent(lastSuccessAt: number | undefined, staleMs: number, what: string): IComponentHealth {
+        const now = Date.now();
+        if (lastSuccessAt === undefined) {
+            if (now - this.startedAt < STARTUP_GRACE_MS) {
+                return { status: "ok", detail: `Starting up: no ${what} has completed yet` };
+            }
+            return { status: "failing", detail: `No ${what} has completed since the bot started` };
+        }
+        if (now - lastSuccessAt > staleMs) {
+            return { status: "failing", detail: `No ${what} has completed for ${Math.round((now - lastSuccessAt) / 1000)}s`, lastSuccessAt };
+        }
+        return { status: "ok", lastSuccessAt };
+    }
+
+    private async checkDatabase(): Promise<IComponentHealth> {
+        try {
+            const db = await this.conference.getBackendDb();
+            await withTimeout(db.ping(), DB_PING_TIMEOUT_MS);
+            return { status: "ok", lastSuccessAt: Date.now() };
+        } catch (error) {
+            return { status: "failing", detail: error?.message || "unknown error" };
+        }
+    }
+
+    private checkIrcBridge(): IComponentHealth {
+        const status = this.ircBridge.getStatus();
+        if (!status.bridgeResponding) {
+            return { status: "failing", detail: status.lastError ?? "The IRC bridge hasn't answered yet" };
+        }
+        if (!status.ircConnected) {
+            return { status: "failing", detail: status.lastError ?? "Not connected to the IRC server yet" };
+        }
+        return { status: "ok" };
+    }
+}
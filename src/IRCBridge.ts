@@ -40,10 +40,20 @@ interface IrcBridgeData {
 
 const COMMAND_TIMEOUT_MS = 60_000;
 
+/**
+ * The state of the connections to the IRC bridge and IRC server, for health checks.
+ */
+export interface IRCBridgeStatus {
+    bridgeResponding: boolean; // the bridge answered when the bot was set up
+    ircConnected: boolean;
+    lastError?: string;
+}
+
 export class IRCBridge {
 
     private botRoomId?: string;
     private ircClient: Client;
+    private status: IRCBridgeStatus = { bridgeResponding: false, ircConnected: false };
     constructor(private readonly config: IRCBridgeOpts, private readonly mxClient: MatrixClient) {
         if (!config.botNick || !config.botUserId || !config.channelPrefix || !config.port || !config.serverName) {
             throw new Error('Missing configuration options for IRC bridge');
@@ -84,7 +94,13 @@ export class IRCBridge {
         }
 
         // This should timeout if the connection is broken
-        await this.executeCommand("bridgeversion");
+        try {
+            await this.executeCommand("bridgeversion");
+        } catch (error) {
+            this.status.lastError = error?.message;
+            throw error;
+        }
+        this.status.bridgeResponding = true;
 
         this.ircClient = new Client(this.config.serverName, this.config.botNick, {
             port: this.config.port,
@@ -97,6 +113,25 @@ export class IRCBridge {
         this.ircClient.on("error", (...args) => {
             console.warn("irc client got an error:", args);
         });
+        this.ircClient.on("registered", () => {
+            this.status.ircConnected = true;
+        });
+        this.ircClient.on("netError", (error) => {
+            this.status.ircConnected = false;
+            this.status.lastError = error?.message;
+        });
+        this.ircClient.on("abort", () => {
+            this.status.ircConnected = false;
+            this.status.lastError = "Gave up reconnecting to the IRC server";
+        });
+    }
+
+    /**
+     * Gets the state of the connections to the IRC bridge and IRC server.
+     * @returns The state of the connections.
+     */
+    public getStatus(): IRCBridgeStatus {
+        return { ...this.status };
     }
 
     public isChannelAllowed(channel: string) {
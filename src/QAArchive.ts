@@ -0,0 +1,122 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { LogService, MatrixClient } from "matrix-bot-sdk";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import config from "./config";
+import { Conference } from "./Conference";
+import { CachedMessage, Scoreboard } from "./Scoreboard";
+import { getLocale, IRenderedMessage, renderMessage, sendRenderedMessage } from "./messages";
+import { writeFileAtomically } from "./utils";
+
+/**
+ * The questions asked during a talk's Q&A, as they stood when the talk ended.
+ */
+export interface IQAArchive {
+    talkId: string;
+    auditoriumId: string;
+    archivedAt: number; // ms timestamp, utc
+    questions: CachedMessage[]; // ranked by votes, including hidden questions
+}
+
+function getArchivePath(talkId: string, extension: string): string {
+    return path.join(config.dataPath, "qa", `${encodeURIComponent(talkId)}.${extension}`);
+}
+
+/**
+ * Keeps the questions from each talk's Q&A once its scoreboard has been reset for the next talk,
+ * so that speakers can follow up on them. Archives are saved under the data path as JSON, along
+ * with the HTML summary which is posted to the talk room.
+ */
+export class QAArchive {
+    constructor(private client: MatrixClient, private conference: Conference, private scoreboard: Scoreboard) { }
+
+    /**
+     * Archives the questions on an auditorium's scoreboard, if it is for the given talk.
+     * @param talkId The ID of the talk.
+     * @returns The archive, if the scoreboard is for the talk; `undefined` otherwise.
+     */
+    public async snapshot(talkId: string): Promise<IQAArchive | undefined> {
+        const talk = this.conference.getTalk(talkId);
+        if (!talk) return undefined;
+        const auditoriumId = await talk.getAuditoriumId();
+        const auditorium = this.conference.getAuditorium(auditoriumId);
+        if (!auditorium) return undefined;
+
+        const scoreboard = this.scoreboard.getScoreboard(auditorium.roomId);
+        if (scoreboard?.talkId !== talkId) return undefined;
+
+        const archive: IQAArchive = {
+            talkId: talkId,
+            auditoriumId: auditoriumId,
+            archivedAt: Date.now(),
+            questions: [...scoreboard.ordered].sort((a, b) => b.upvotes - a.upvotes),
+        };
+        await fs.mkdir(path.dirname(getArchivePath(talkId, "json")), { recursive: true });
+        await writeFileAtomically(getArchivePath(talkId, "json"), JSON.stringify(archive));
+        return archive;
+    }
+
+    /**
+     * Gets the archive for a talk.
+     * @param talkId The ID of the talk.
+     * @returns The archive, if the talk's questions have been archived; `undefined` otherwise.
+     */
+    public async get(talkId: string): Promise<IQAArchive | undefined> {
+        try {
+            const str = await fs.readFile(getArchivePath(talkId, "json"), "utf-8");
+            return JSON.parse(str);
+        } catch (error) {
+            if (error?.code !== "ENOENT") LogService.error("QAArchive", error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Renders the summary of an archive, and saves it alongside the archive.
+     * @param archive The archive.
+     * @returns The summary.
+     */
+    public async render(archive: IQAArchive): Promise<IRenderedMessage> {
+        const talk = this.conference.getTalk(archive.talkId);
+        const definition = await talk?.getDefinition();
+        const questions = archive.questions.filter(q => !q.hidden);
+        const message = await renderMessage("qa_archive.talk", {
+            talk: {
+                id: archive.talkId,
+                title: definition?.title ?? archive.talkId,
+            },
+            questions: questions,
+            hiddenCount: archive.questions.length - questions.length,
+        }, getLocale(archive.auditoriumId));
+        await writeFileAtomically(getArchivePath(archive.talkId, "html"), message.html);
+        return message;
+    }
+
+    /**
+     * Posts the summary of an archive to its talk room.
+     * @param archive The archive.
+     * @returns The event ID of the summary.
+     * @throws {Error} The talk room does not exist.
+     */
+    public async publish(archive: IQAArchive): Promise<string> {
+        const talk = this.conference.getTalk(archive.talkId);
+        if (!talk) throw new Error(`Unknown talk: ${archive.talkId}`);
+        const message = await this.render(archive);
+        return await sendRenderedMessage(this.client, talk.roomId, message);
+    }
+}
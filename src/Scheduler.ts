@@ -20,12 +20,25 @@ import AwaitLock from "await-lock";
 import { logMessage } from "./LogProxy";
 import config from "./config";
 import { LogLevel, LogService, MatrixClient, MentionPill } from "matrix-bot-sdk";
-import { makeRoomPublic } from "./utils";
-import { Scoreboard } from "./Scoreboard";
+import { getUpvoteReaction, Scoreboard } from "./Scoreboard";
 import { LiveWidget } from "./models/LiveWidget";
 import { ResolvedPersonIdentifier, resolveIdentifiers } from "./invites";
 import { Role } from "./db/DbPerson";
+import { DBBackend } from "./db/backendDb";
+import { Talk } from "./models/Talk";
+import { Auditorium, AuditoriumBackstage } from "./models/Auditorium";
+import { InterestRoom } from "./models/InterestRoom";
+import * as htmlEscape from "escape-html";
+import { DateTime } from "luxon";
+import { getLocale, renderInlineMessage, renderMessage } from "./messages";
+import { IEscalationMessage, ISchedulerEffects, ISimulatedTask, LiveSchedulerEffects, SimulatedSchedulerEffects } from "./SchedulerEffects";
+import { SchedulerHistory, TaskTrigger } from "./SchedulerHistory";
+import { ACKNOWLEDGE_REACTION, RESOLVE_REACTION } from "./CheckinAlerts";
+import { getTaskKindLabel, schedulerTaskLag, schedulerTasksExecuted, schedulerTasksFailed } from "./metrics";
 
+/**
+ * The built-in behaviours which a task in the scheduler's timeline can have.
+ */
 export enum ScheduledTaskType {
     TalkStart = "talk_start",
     TalkEnd = "talk_end",
@@ -40,89 +53,273 @@ export enum ScheduledTaskType {
     TalkCheckin45M = "talk_checkin_45m",
     TalkCheckin30M = "talk_checkin_30m",
     TalkCheckin15M = "talk_checkin_15m",
+
+    InterestStart1H = "interest_start_1h",
+    InterestCheckin15M = "interest_checkin_15m",
+    InterestStart5M = "interest_start_5m",
+    InterestStart = "interest_start",
+    InterestEnd5M = "interest_end_5m",
+    InterestEnd = "interest_end",
 }
 
-const SKIPPABLE_TASKS = new Set([
-    ScheduledTaskType.TalkStart1H,
-    ScheduledTaskType.TalkCheckin45M,
-    ScheduledTaskType.TalkCheckin30M,
-]);
+/**
+ * The point in a talk's schedule which a task in the timeline is relative to.
+ */
+export enum TimelineAnchor {
+    Start = "start",
+    QAStart = "qa_start",
+    End = "end",
+    LivestreamEnd = "livestream_end",
+}
+
+/**
+ * The room which a task in the timeline sends its message to.
+ */
+export enum TimelineRoom {
+    Talk = "talk",
+    Auditorium = "auditorium",
+    Backstage = "backstage",
+    Management = "management",
+    Interest = "interest",
+}
+
+export interface ITimelineTask {
+    /**
+     * The name of the task. Must be unique within the timeline, as it is used to track which
+     * tasks have been completed.
+     */
+    name: string;
+    anchor: TimelineAnchor;
+    /**
+     * When the task runs, relative to the anchor. Negative offsets run before the anchor.
+     */
+    offsetMinutes: number;
+    /**
+     * The built-in behaviour to run, if any.
+     */
+    kind?: ScheduledTaskType;
+    /**
+     * The room to send the `template` or `message` to. Defaults to the talk room.
+     */
+    room?: TimelineRoom;
+    /**
+     * The name of a message template to send, which may be overridden per locale.
+     */
+    template?: string;
+    /**
+     * A Liquid template for an HTML message to send, if no `template` is given.
+     */
+    message?: string;
+    /**
+     * Whether the task should be skipped if the bot falls more than 10 minutes behind on it.
+     */
+    skippable?: boolean;
+    /**
+     * If set, the task only runs for talks which are (or are not) pre-recorded.
+     */
+    prerecorded?: boolean;
+}
+
+/**
+ * The timeline used when none is configured. Tasks which run at the same time run in the order
+ * listed. Unconventionally, this is ordered backwards so that messages show up as concluding a
+ * talk before starting a new one.
+ */
+export const DEFAULT_TIMELINE: ITimelineTask[] = [
+    { name: ScheduledTaskType.TalkLivestreamEnd1M, kind: ScheduledTaskType.TalkLivestreamEnd1M, anchor: TimelineAnchor.LivestreamEnd, offsetMinutes: -1 },
+    { name: ScheduledTaskType.TalkEnd5M, kind: ScheduledTaskType.TalkEnd5M, anchor: TimelineAnchor.End, offsetMinutes: -5 },
+    { name: ScheduledTaskType.TalkEnd1M, kind: ScheduledTaskType.TalkEnd1M, anchor: TimelineAnchor.End, offsetMinutes: -1 },
+    { name: ScheduledTaskType.TalkEnd, kind: ScheduledTaskType.TalkEnd, anchor: TimelineAnchor.End, offsetMinutes: 0 },
+    { name: ScheduledTaskType.TalkQA5M, kind: ScheduledTaskType.TalkQA5M, anchor: TimelineAnchor.QAStart, offsetMinutes: -5 },
+    { name: ScheduledTaskType.TalkQA, kind: ScheduledTaskType.TalkQA, anchor: TimelineAnchor.QAStart, offsetMinutes: 0 },
+    { name: ScheduledTaskType.TalkStart1H, kind: ScheduledTaskType.TalkStart1H, anchor: TimelineAnchor.Start, offsetMinutes: -60, skippable: true },
+    { name: ScheduledTaskType.TalkCheckin45M, kind: ScheduledTaskType.TalkCheckin45M, anchor: TimelineAnchor.Start, offsetMinutes: -45, skippable: true },
+    { name: ScheduledTaskType.TalkCheckin30M, kind: ScheduledTaskType.TalkCheckin30M, anchor: TimelineAnchor.Start, offsetMinutes: -30, skippable: true },
+    { name: ScheduledTaskType.TalkCheckin15M, kind: ScheduledTaskType.TalkCheckin15M, anchor: TimelineAnchor.Start, offsetMinutes: -15 },
+    { name: ScheduledTaskType.TalkStart5M, kind: ScheduledTaskType.TalkStart5M, anchor: TimelineAnchor.Start, offsetMinutes: -5 },
+    { name: ScheduledTaskType.TalkStart, kind: ScheduledTaskType.TalkStart, anchor: TimelineAnchor.Start, offsetMinutes: 0 },
+];
+
+/**
+ * The timeline used for sessions in special interest rooms when none is configured. Check-ins
+ * are left out, as interest rooms are often run informally.
+ */
+export const DEFAULT_INTEREST_TIMELINE: ITimelineTask[] = [
+    { name: ScheduledTaskType.InterestEnd5M, kind: ScheduledTaskType.InterestEnd5M, anchor: TimelineAnchor.End, offsetMinutes: -5 },
+    { name: ScheduledTaskType.InterestEnd, kind: ScheduledTaskType.InterestEnd, anchor: TimelineAnchor.End, offsetMinutes: 0 },
+    { name: ScheduledTaskType.InterestStart1H, kind: ScheduledTaskType.InterestStart1H, anchor: TimelineAnchor.Start, offsetMinutes: -60, skippable: true },
+    { name: ScheduledTaskType.InterestStart5M, kind: ScheduledTaskType.InterestStart5M, anchor: TimelineAnchor.Start, offsetMinutes: -5 },
+    { name: ScheduledTaskType.InterestStart, kind: ScheduledTaskType.InterestStart, anchor: TimelineAnchor.Start, offsetMinutes: 0 },
+];
+
+// How late a skippable task may run before it is skipped.
+const SKIPPABLE_TASK_GRACE_MS = 10 * 60 * 1000;
 
 const KEEP_LAST_TASKS = 200;
 const ACD_SCHEDULER = "org.matrix.confbot.scheduler_info";
 
-// Run tasks often. Note that this also controls the lookahead timing and must be smaller than
-// the config value. Given this is hardcoded, it should be somewhat low.
-const RUN_INTERVAL_MS = 8000;
+// Tasks run on their own timers, so the schedule only needs to be reloaded occasionally to pick
+// up new and changed talks. The window overlaps the next refresh, in case that refresh fails.
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const SCHEDULE_WINDOW_MS = 2 * REFRESH_INTERVAL_MS;
 
 interface ISchedulerAccountData {
     completed: string[];
     inAuditoriums: string[];
+    pausedAuditoriums?: string[];
 }
 
 interface ITask {
     id: string;
-    type: ScheduledTaskType;
+    timelineTask: ITimelineTask;
     talk: IDbTalk;
 }
 
-function makeTaskId(type: ScheduledTaskType, talk: IDbTalk): string {
-    return `${type}::${talk.event_id}::${talk.conference_room}`;
+/**
+ * Makes the ID which tracks whether a task has run for a talk. The IDs of completed tasks are
+ * persisted, so they must not change: the tasks in the default timeline are named for their
+ * kinds so that their IDs match those from before the timeline was configurable.
+ * @param timelineTask The task in the timeline.
+ * @param talk The talk.
+ * @returns The task ID.
+ */
+export function makeTaskId(timelineTask: ITimelineTask, talk: IDbTalk): string {
+    return `${timelineTask.name}::${talk.event_id}::${talk.conference_room}`;
 }
 
-export function getStartTime(task: ITask): number {
-    switch (task.type) {
-        case ScheduledTaskType.TalkStart1H:
-            return task.talk.start_datetime - (60 * 60 * 1000);
-        case ScheduledTaskType.TalkStart5M:
-            return task.talk.start_datetime - (5 * 60 * 1000);
-        case ScheduledTaskType.TalkCheckin45M:
-            return task.talk.start_datetime - (45 * 60 * 1000);
-        case ScheduledTaskType.TalkCheckin30M:
-            return task.talk.start_datetime - (30 * 60 * 1000);
-        case ScheduledTaskType.TalkCheckin15M:
-            return task.talk.start_datetime - (15 * 60 * 1000);
-        case ScheduledTaskType.TalkStart:
-            return task.talk.start_datetime;
-        case ScheduledTaskType.TalkEnd5M:
-            return task.talk.end_datetime - (5 * 60 * 1000);
-        case ScheduledTaskType.TalkEnd1M:
-            return task.talk.end_datetime - (1 * 60 * 1000);
-        case ScheduledTaskType.TalkEnd:
-            return task.talk.end_datetime;
-        case ScheduledTaskType.TalkQA5M:
-            return task.talk.qa_start_datetime - (5 * 60 * 1000);
-        case ScheduledTaskType.TalkQA:
-            return task.talk.qa_start_datetime;
-        case ScheduledTaskType.TalkLivestreamEnd1M:
-            return task.talk.livestream_end_datetime - (1 * 60 * 1000);
+/**
+ * Checks that a timeline is valid.
+ * @param timeline The timeline.
+ * @param names The names of tasks in other timelines, which this timeline's tasks must not reuse.
+ * Filled in with the names of this timeline's tasks.
+ * @throws {Error} The timeline is invalid.
+ */
+function validateTimeline(timeline: ITimelineTask[], names: Set<string>) {
+    const anchors = Object.values(TimelineAnchor) as string[];
+    const kinds = Object.values(ScheduledTaskType) as string[];
+    const rooms = Object.values(TimelineRoom) as string[];
+    for (const task of timeline) {
+        if (!task.name || names.has(task.name)) {
+            throw new Error(`Timeline task names must be unique and non-empty: ${task.name}`);
+        }
+        names.add(task.name);
+        if (!anchors.includes(task.anchor)) {
+            throw new Error(`Unknown anchor for timeline task ${task.name}: ${task.anchor}`);
+        }
+        if (typeof task.offsetMinutes !== "number") {
+            throw new TypeError(`Timeline task ${task.name} is missing offsetMinutes`);
+        }
+        if (task.kind !== undefined && !kinds.includes(task.kind)) {
+            throw new Error(`Unknown kind for timeline task ${task.name}: ${task.kind}`);
+        }
+        if (task.room !== undefined && !rooms.includes(task.room)) {
+            throw new Error(`Unknown room for timeline task ${task.name}: ${task.room}`);
+        }
+        if (task.kind === undefined && !task.template && !task.message) {
+            throw new Error(`Timeline task ${task.name} needs a kind, template or message`);
+        }
+    }
+}
+
+/**
+ * Gets the configured timeline, falling back to the default timeline.
+ * @returns The timeline.
+ * @throws {Error} The configured timeline is invalid.
+ */
+export function getTimeline(): ITimelineTask[] {
+    const timeline = config.conference.timeline || DEFAULT_TIMELINE;
+    validateTimeline(timeline, new Set<string>());
+    return timeline;
+}
+
+/**
+ * Gets the configured timeline for sessions in special interest rooms, falling back to the
+ * default interest room timeline.
+ * @returns The timeline.
+ * @throws {Error} The configured timeline is invalid, or reuses the name of a talk task.
+ */
+export function getInterestTimeline(): ITimelineTask[] {
+    const timeline = config.conference.interestTimeline || DEFAULT_INTEREST_TIMELINE;
+    validateTimeline(timeline, new Set(getTimeline().map(t => t.name)));
+    return timeline;
+}
+
+function formatTime(ts: number): string {
+    return DateTime.fromMillis(ts, { zone: config.conference.timezone }).toFormat("HH:mm");
+}
+
+function getAnchorTime(anchor: TimelineAnchor, talk: IDbTalk): number {
+    switch (anchor) {
+        case TimelineAnchor.Start:
+            return talk.start_datetime;
+        case TimelineAnchor.QAStart:
+            return talk.qa_start_datetime;
+        case TimelineAnchor.End:
+            return talk.end_datetime;
+        case TimelineAnchor.LivestreamEnd:
+            return talk.livestream_end_datetime;
+        default:
+            throw new Error("Unknown timeline anchor: " + anchor);
+    }
+}
+
+/**
+ * Finds the talks with the given anchor around the current time.
+ * @param backendDb The backend to query.
+ * @param anchor The anchor.
+ * @param inNextMinutes How far ahead to look.
+ * @param minBefore How far back to look.
+ * @returns The talks.
+ */
+function getTalksAroundAnchor(backendDb: DBBackend, anchor: TimelineAnchor, inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+    switch (anchor) {
+        case TimelineAnchor.Start:
+            return backendDb.getUpcomingTalkStarts(inNextMinutes, minBefore);
+        case TimelineAnchor.QAStart:
+            return backendDb.getUpcomingQAStarts(inNextMinutes, minBefore);
+        case TimelineAnchor.End:
+            return backendDb.getUpcomingTalkEnds(inNextMinutes, minBefore);
+        case TimelineAnchor.LivestreamEnd: {
+            // The livestream ends a little before the talk does
+            const bufferMinutes = Math.ceil(config.conference.database.schedulePostBufferSeconds / 60);
+            return backendDb.getUpcomingTalkEnds(inNextMinutes + bufferMinutes, minBefore - bufferMinutes);
+        }
         default:
-            throw new Error("Unknown task type for getStartTime(): " + task.type);
+            throw new Error("Unknown timeline anchor: " + anchor);
     }
 }
 
+/**
+ * Finds the talks which may have tasks running between two times.
+ * @param backendDb The backend to query.
+ * @param anchor The anchor of the tasks.
+ * @param timelineTasks The tasks in the timeline which use the anchor.
+ * @param from The start of the window, as a Unix timestamp in milliseconds.
+ * @param to The end of the window, as a Unix timestamp in milliseconds.
+ * @returns The talks.
+ */
+function getTalksForTimeline(backendDb: DBBackend, anchor: TimelineAnchor, timelineTasks: ITimelineTask[], from: number, to: number): Promise<IDbTalk[]> {
+    // Look far enough around the anchor to cover every task which uses it
+    const earliestOffset = Math.min(0, ...timelineTasks.map(t => t.offsetMinutes));
+    const latestOffset = Math.max(0, ...timelineTasks.map(t => t.offsetMinutes));
+    const now = Date.now();
+    const inNextMinutes = Math.ceil((to - now) / 60 / 1000) - earliestOffset;
+    const minBefore = Math.ceil((now - from) / 60 / 1000) + latestOffset;
+    return getTalksAroundAnchor(backendDb, anchor, inNextMinutes, minBefore);
+}
+
+export function getStartTime(task: ITask): number {
+    return getAnchorTime(task.timelineTask.anchor, task.talk) + task.timelineTask.offsetMinutes * 60 * 1000;
+}
+
 export function sortTasks(tasks: ITask[]): ITask[] {
-    const implicitTaskOrder = [
-        // Unconventionally, we order this backwards so the messages show up as
-        // concluding a talk before starting a new one.
-        ScheduledTaskType.TalkLivestreamEnd1M,
-        ScheduledTaskType.TalkEnd5M,
-        ScheduledTaskType.TalkEnd1M,
-        ScheduledTaskType.TalkEnd,
-        ScheduledTaskType.TalkQA5M,
-        ScheduledTaskType.TalkQA,
-        ScheduledTaskType.TalkStart1H,
-        ScheduledTaskType.TalkCheckin45M,
-        ScheduledTaskType.TalkCheckin30M,
-        ScheduledTaskType.TalkCheckin15M,
-        ScheduledTaskType.TalkStart5M,
-        ScheduledTaskType.TalkStart,
-    ];
+    // Tasks which run at the same time run in the order they are listed in the timeline
+    const implicitTaskOrder = [...getTimeline(), ...getInterestTimeline()].map(t => t.name);
     tasks.sort((a, b) => {
         const diff = getStartTime(a) - getStartTime(b);
         if (diff === 0) {
-            const ai = implicitTaskOrder.indexOf(a.type);
-            const bi = implicitTaskOrder.indexOf(b.type);
+            const ai = implicitTaskOrder.indexOf(a.timelineTask.name);
+            const bi = implicitTaskOrder.indexOf(b.timelineTask.name);
             return ai - bi;
         }
         return diff;
@@ -133,11 +330,26 @@ export function sortTasks(tasks: ITask[]): ITask[] {
 export class Scheduler {
     private completedIds: string[] = [];
     private inAuditoriums: string[] = [];
+    private pausedAuditoriums: string[] = [];
     private pending: { [taskId: string]: ITask; } = {};
+    private timers: { [taskId: string]: NodeJS.Timeout; } = {};
+    private refreshTimer: NodeJS.Timeout;
+    private lastRunAt?: number;
     private lock = new AwaitLock();
+    private readonly timeline = getTimeline();
+    private readonly interestTimeline = getInterestTimeline();
+    private readonly history = new SchedulerHistory();
 
     constructor(private client: MatrixClient, private conference: Conference, private scoreboard: Scoreboard) { }
 
+    /**
+     * The time at which the scheduler last finished running its due tasks, as a Unix timestamp in
+     * milliseconds. This happens at least every few minutes while the scheduler is working.
+     */
+    public get lastRunCompletedAt(): number | undefined {
+        return this.lastRunAt;
+    }
+
     public async prepare() {
         const schedulerData = await this.client.getSafeAccountData<ISchedulerAccountData>(ACD_SCHEDULER, {
             completed: [],
@@ -145,12 +357,19 @@ export class Scheduler {
         });
         this.completedIds.push(...(schedulerData?.completed || []));
         this.inAuditoriums.push(...(schedulerData?.inAuditoriums || []));
+        this.pausedAuditoriums.push(...(schedulerData?.pausedAuditoriums || []));
 
         if (this.inAuditoriums.length > 0) {
             await this.client.sendNotice(config.managementRoom, `Running schedule in auditoriums: ${this.inAuditoriums.join(', ')}`);
         }
+        if (this.pausedAuditoriums.length > 0) {
+            await this.client.sendNotice(config.managementRoom, `Schedule is paused in auditoriums: ${this.pausedAuditoriums.join(', ')}`);
+        }
 
-        await this.runTasks();
+        const backendDb = await this.conference.getBackendDb();
+        backendDb.onScheduleChanged?.(() => this.refresh());
+
+        await this.refresh();
     }
 
     public async reset() {
@@ -160,6 +379,7 @@ export class Scheduler {
         } finally {
             this.lock.release();
         }
+        await this.refresh();
     }
 
     public inspect(): ITask[] {
@@ -171,55 +391,41 @@ export class Scheduler {
         await this.client.setAccountData(ACD_SCHEDULER, {
             completed: completedIds,
             inAuditoriums: this.inAuditoriums,
+            pausedAuditoriums: this.pausedAuditoriums,
         });
     }
 
-    private async runTasks() {
+    /**
+     * Reloads the window of upcoming tasks from the backend, and arms a timer for each of them.
+     * Tasks which have left the window, such as because their talk was delayed, are dropped.
+     * They will be scheduled again once their talks come back into it.
+     */
+    public async refresh() {
         try {
             const now = Date.now();
             const backendDb = await this.conference.getBackendDb();
             await this.lock.acquireAsync();
             LogService.info("Scheduler", "Scheduling tasks");
             try {
-                const minVar = config.conference.lookaheadMinutes;
-                const upcomingTalks = await backendDb.getUpcomingTalkStarts(minVar, minVar);
-                const upcomingQA = await backendDb.getUpcomingQAStarts(minVar, minVar);
-                const upcomingEnds = await backendDb.getUpcomingTalkEnds(minVar, minVar);
-
-                const scheduleAll = (talks: IDbTalk[], type: ScheduledTaskType) => {
-                    for (const e of talks.filter(e => !this.completedIds.includes(makeTaskId(type, e)))) this.tryScheduleTask(type, e);
-
-                    switch (type) {
-                        case ScheduledTaskType.TalkStart: {
-                            for (const e of talks.filter(e => !this.completedIds.includes(makeTaskId(ScheduledTaskType.TalkStart5M, e)))) this.tryScheduleTask(ScheduledTaskType.TalkStart5M, e);
-
-                            break;
-                        }
-                        case ScheduledTaskType.TalkQA: {
-                            for (const e of talks.filter(e => !this.completedIds.includes(makeTaskId(ScheduledTaskType.TalkQA5M, e)))) this.tryScheduleTask(ScheduledTaskType.TalkQA5M, e);
-
-                            break;
-                        }
-                        case ScheduledTaskType.TalkEnd: {
-                            for (const e of talks.filter(e => !this.completedIds.includes(makeTaskId(ScheduledTaskType.TalkEnd5M, e)))) this.tryScheduleTask(ScheduledTaskType.TalkEnd5M, e);
-                            for (const e of talks.filter(e => !this.completedIds.includes(makeTaskId(ScheduledTaskType.TalkLivestreamEnd1M, e)))) this.tryScheduleTask(ScheduledTaskType.TalkLivestreamEnd1M, e);
-                            for (const e of talks.filter(e => !this.completedIds.includes(makeTaskId(ScheduledTaskType.TalkEnd1M, e)))) this.tryScheduleTask(ScheduledTaskType.TalkEnd1M, e);
+                const lookaheadMs = config.conference.lookaheadMinutes * 60 * 1000;
+                const seenIds = new Set<string>();
+                for (const anchor of Object.values(TimelineAnchor)) {
+                    const timelineTasks = [...this.timeline, ...this.interestTimeline].filter(t => t.anchor === anchor);
+                    if (timelineTasks.length === 0) continue;
 
-                            break;
+                    const talks = await getTalksForTimeline(backendDb, anchor, timelineTasks, now - lookaheadMs, now + SCHEDULE_WINDOW_MS);
+                    for (const talk of talks) {
+                        const talkTimeline = this.getTimelineFor(talk);
+                        for (const timelineTask of timelineTasks.filter(t => talkTimeline.includes(t))) {
+                            seenIds.add(makeTaskId(timelineTask, talk));
+                            this.scheduleTask(timelineTask, talk);
                         }
-                        // No default
                     }
-                };
-
-                scheduleAll(upcomingTalks, ScheduledTaskType.TalkStart);
-                scheduleAll(upcomingQA, ScheduledTaskType.TalkQA);
-                scheduleAll(upcomingEnds, ScheduledTaskType.TalkEnd);
+                }
 
-                const earlyWarnings = await backendDb.getUpcomingTalkStarts(75, 15);
-                scheduleAll(earlyWarnings, ScheduledTaskType.TalkStart1H);
-                scheduleAll(earlyWarnings, ScheduledTaskType.TalkCheckin15M);
-                scheduleAll(earlyWarnings, ScheduledTaskType.TalkCheckin30M);
-                scheduleAll(earlyWarnings, ScheduledTaskType.TalkCheckin45M);
+                for (const taskId of Object.keys(this.pending)) {
+                    if (!seenIds.has(taskId)) this.unscheduleTask(taskId);
+                }
             } catch (error) {
                 LogService.error("Scheduler", error);
                 try {
@@ -230,160 +436,352 @@ export class Scheduler {
             } finally {
                 this.lock.release();
             }
-            await this.lock.acquireAsync();
-            LogService.info("Scheduler", "Running tasks");
-            try {
-                const taskIds = Object.keys(this.pending);
-                const toExec: ITask[] = [];
-                for (const taskId of taskIds) {
-                    if (this.completedIds.includes(taskId)) {
-                        delete this.pending[taskId];
-                        continue;
-                    }
-                    const task = this.pending[taskId];
-                    const startTime = getStartTime(task);
-                    if (startTime > now) continue;
-                    if (SKIPPABLE_TASKS.has(task.type) && (now - startTime) > 10 * 60 * 1000) continue;
-                    toExec.push(task);
-                }
-                sortTasks(toExec);
-                let didAction = false;
-                for (const task of toExec) {
-                    const taskId = task.id;
-                    LogService.info("Scheduler", "Running task: " + taskId);
-                    try {
-                        await this._execute(task);
-                    } catch (error) {
-                        LogService.error("Scheduler", error);
-                        await logMessage(LogLevel.ERROR, "Scheduler", `Error running task ${taskId}: ${error?.message || 'unknown error'}`);
-                    }
-                    delete this.pending[taskId];
-                    this.completedIds.push(taskId);
-                    didAction = true;
+            await this.runDueTasks();
+        } catch (error) {
+            LogService.error("Scheduler", error);
+        }
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_INTERVAL_MS);
+    }
+
+    /**
+     * Adds a task to the pending tasks, or updates it if it is already pending, and arms its
+     * timer. Expects the scheduler lock to be held by the caller.
+     * @param timelineTask The task in the timeline.
+     * @param talk The talk to run the task for.
+     */
+    private scheduleTask(timelineTask: ITimelineTask, talk: IDbTalk) {
+        const id = makeTaskId(timelineTask, talk);
+        if (this.completedIds.includes(id)) {
+            LogService.debug("Scheduler", `Ignoring re-scheduled completed task: ${id}`);
+            return;
+        }
+        if (!this.isWatchingAuditorium(talk.conference_room)) {
+            LogService.debug("Scheduler", `Ignoring task in unwatched auditorium: ${id}`);
+            return;
+        }
+
+        const existingTask = this.pending[id];
+        if (existingTask) {
+            // The talk may have been delayed since the task was scheduled
+            existingTask.talk = talk;
+        } else {
+            this.pending[id] = { id, timelineTask, talk };
+            LogService.debug("Scheduler", `Task ${id} scheduled`);
+        }
+
+        clearTimeout(this.timers[id]);
+        const delayMs = Math.max(0, getStartTime(this.pending[id]) - Date.now());
+        this.timers[id] = setTimeout(() => this.runDueTasks(), delayMs);
+    }
+
+    /**
+     * Removes a task from the pending tasks and disarms its timer. Expects the scheduler lock to
+     * be held by the caller.
+     * @param taskId The ID of the task.
+     */
+    private unscheduleTask(taskId: string) {
+        clearTimeout(this.timers[taskId]);
+        delete this.timers[taskId];
+        delete this.pending[taskId];
+    }
+
+    /**
+     * Runs all of the pending tasks which are due, in order. Each task is marked as completed as
+     * soon as it has run, so that it doesn't run again after a restart.
+     */
+    private async runDueTasks() {
+        await this.lock.acquireAsync();
+        LogService.info("Scheduler", "Running tasks");
+        try {
+            const now = Date.now();
+            const toExec: ITask[] = [];
+            for (const task of Object.values(this.pending)) {
+                if (this.completedIds.includes(task.id)) {
+                    this.unscheduleTask(task.id);
+                    continue;
                 }
-                if (didAction) await this.persistProgress();
-            } catch (error) {
-                LogService.error("Scheduler", error);
+                if (this.isAuditoriumPaused(task.talk.conference_room)) continue;
+                const startTime = getStartTime(task);
+                if (startTime > now) continue;
+                if (task.timelineTask.skippable && (now - startTime) > SKIPPABLE_TASK_GRACE_MS) continue;
+                toExec.push(task);
+            }
+            sortTasks(toExec);
+            for (const task of toExec) {
+                const taskId = task.id;
+                LogService.info("Scheduler", "Running task: " + taskId);
                 try {
-                    await logMessage(LogLevel.ERROR, "Scheduler", `Error running tasks: ${error?.message || 'unknown error'}`);
+                    await this.runTask(task, TaskTrigger.Schedule);
                 } catch (error) {
                     LogService.error("Scheduler", error);
+                    await logMessage(LogLevel.ERROR, "Scheduler", `Error running task ${taskId}: ${error?.message || 'unknown error'}`);
                 }
-            } finally {
-                this.lock.release();
+                this.unscheduleTask(taskId);
+                this.completedIds.push(taskId);
+                await this.persistProgress();
             }
-            LogService.info("Scheduler", "Done running tasks");
         } catch (error) {
             LogService.error("Scheduler", error);
+            try {
+                await logMessage(LogLevel.ERROR, "Scheduler", `Error running tasks: ${error?.message || 'unknown error'}`);
+            } catch (error) {
+                LogService.error("Scheduler", error);
+            }
+        } finally {
+            this.lock.release();
         }
-        setTimeout(() => this.runTasks(), RUN_INTERVAL_MS);
+        this.lastRunAt = Date.now();
+        LogService.info("Scheduler", "Done running tasks");
     }
 
     /**
-     * Executes the specified task for debugging.
-     *
-     * Does not mark the task as completed, so that it can be executed more than once.
+     * Executes the specified task now, whether it is pending or has yet to be scheduled.
      * @param taskId The ID of the task to be executed.
-     * @throws {Error} The specified task does not exist or is no longer pending.
+     * @param markCompleted Whether to mark the task as completed, so that it doesn't run again
+     * at its scheduled time. Otherwise the task can be executed more than once, for debugging.
+     * @throws {Error} The specified task does not exist.
      */
-    public async execute(taskId: string) {
+    public async execute(taskId: string, markCompleted = false) {
         await this.lock.acquireAsync();
         try {
-            const task = this.pending[taskId];
+            const task = this.pending[taskId] ?? await this.findTask(taskId);
             if (!task) {
-                throw new Error(`Task does not exist or is no longer pending: ${taskId}`);
+                throw new Error(`Task does not exist: ${taskId}`);
             }
-            await this._execute(task);
+            await this.runTask(task, markCompleted ? TaskTrigger.Fire : TaskTrigger.Execute);
+            if (markCompleted) {
+                this.unscheduleTask(taskId);
+                if (!this.completedIds.includes(taskId)) this.completedIds.push(taskId);
+                await this.persistProgress();
+            }
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    /**
+     * Marks the specified task as completed without running it.
+     * @param taskId The ID of the task to be skipped.
+     * @throws {Error} The specified task does not exist.
+     */
+    public async skip(taskId: string) {
+        await this.lock.acquireAsync();
+        try {
+            const task = this.pending[taskId] ?? await this.findTask(taskId);
+            if (!task) {
+                throw new Error(`Task does not exist: ${taskId}`);
+            }
+            this.unscheduleTask(taskId);
+            if (!this.completedIds.includes(taskId)) this.completedIds.push(taskId);
+            await this.persistProgress();
         } finally {
             this.lock.release();
         }
     }
 
-    private async _execute(task: ITask) {
+    /**
+     * Looks up a task which may not have been scheduled yet.
+     * @param taskId The ID of the task.
+     * @returns The task, if it exists; `undefined` otherwise.
+     */
+    private async findTask(taskId: string): Promise<ITask | undefined> {
+        const [name, talkId, audId] = taskId.split("::");
+        if (!talkId) return undefined;
+
+        const backendDb = await this.conference.getBackendDb();
+        const talk = await backendDb.getTalk(talkId);
+        if (!talk || talk.conference_room !== audId) return undefined;
+        const timelineTask = this.getTimelineFor(talk).find(t => t.name === name);
+        if (!timelineTask) return undefined;
+        return { id: makeTaskId(timelineTask, talk), timelineTask, talk };
+    }
+
+    /**
+     * Works out what the scheduler would do in a window of time, without doing any of it. Tasks
+     * which have already run are included.
+     * @param audId The ID of the auditorium to simulate, or "all".
+     * @param from The start of the window, as a Unix timestamp in milliseconds.
+     * @param to The end of the window, as a Unix timestamp in milliseconds.
+     * @returns The tasks which would run, with what they would do.
+     */
+    public async simulate(audId: string, from: number, to: number): Promise<ISimulatedTask[]> {
+        const backendDb = await this.conference.getBackendDb();
+        const tasks: ITask[] = [];
+        for (const anchor of Object.values(TimelineAnchor)) {
+            const timelineTasks = [...this.timeline, ...this.interestTimeline].filter(t => t.anchor === anchor);
+            if (timelineTasks.length === 0) continue;
+
+            const talks = await getTalksForTimeline(backendDb, anchor, timelineTasks, from, to);
+            for (const talk of talks) {
+                if (audId !== "all" && talk.conference_room !== audId) continue;
+                const talkTimeline = this.getTimelineFor(talk);
+                for (const timelineTask of timelineTasks.filter(t => talkTimeline.includes(t))) {
+                    const task: ITask = { id: makeTaskId(timelineTask, talk), timelineTask, talk };
+                    const startTime = getStartTime(task);
+                    if (startTime < from || startTime > to) continue;
+                    tasks.push(task);
+                }
+            }
+        }
+        sortTasks(tasks);
+
+        const effects = new SimulatedSchedulerEffects();
+        const coordinatorsRoomId = await this.getCoordinatorsRoomId();
+        for (const task of tasks) {
+            const confTalk = this.conference.getTalk(task.talk.event_id);
+            const confAud = this.conference.getAuditorium(task.talk.conference_room);
+            const confAudBackstage = this.conference.getAuditoriumBackstage(task.talk.conference_room);
+            const interestRoom = this.conference.getInterestRoom(task.talk.conference_room);
+            const roomNames = {
+                [config.managementRoom]: "management room",
+            };
+            if (coordinatorsRoomId) roomNames[coordinatorsRoomId] = "coordinators' support room";
+            if (interestRoom) roomNames[interestRoom.roomId] = "interest room";
+            if (confTalk) roomNames[confTalk.roomId] = "talk room";
+            if (confAud) roomNames[confAud.roomId] = "auditorium";
+            if (confAudBackstage) roomNames[confAudBackstage.roomId] = "backstage";
+            effects.startTask({
+                id: task.id,
+                name: task.timelineTask.name,
+                talkId: task.talk.event_id,
+                auditoriumId: task.talk.conference_room,
+                time: getStartTime(task),
+            }, roomNames);
+            try {
+                await this._execute(task, effects);
+            } catch (error) {
+                effects.record(`<b>Failed:</b> ${htmlEscape(error?.message || 'unknown error')}`);
+            }
+        }
+        return effects.tasks;
+    }
+
+    public getHistory(): SchedulerHistory {
+        return this.history;
+    }
+
+    /**
+     * Runs a task for real, and records the run in the history.
+     * @param task The task to run.
+     * @param trigger Why the task is being run.
+     * @throws {Error} The task failed. The failure is recorded before it is thrown.
+     */
+    private async runTask(task: ITask, trigger: TaskTrigger) {
+        const effects = new LiveSchedulerEffects(this.client, this.scoreboard);
+        const firedAt = Date.now();
+        const labels = { kind: getTaskKindLabel(task.timelineTask.kind), auditorium: task.talk.conference_room };
+        if (trigger === TaskTrigger.Schedule) {
+            schedulerTaskLag.observe({ kind: labels.kind }, (firedAt - getStartTime(task)) / 1000);
+        }
+        let errorMessage: string | undefined;
+        try {
+            await this._execute(task, effects);
+        } catch (error) {
+            errorMessage = error?.message || 'unknown error';
+            schedulerTasksFailed.inc(labels);
+            throw error;
+        } finally {
+            schedulerTasksExecuted.inc(labels);
+            await this.history.record({
+                taskId: task.id,
+                name: task.timelineTask.name,
+                talkId: task.talk.event_id,
+                auditoriumId: task.talk.conference_room,
+                trigger: trigger,
+                scheduledTime: getStartTime(task),
+                firedAt: firedAt,
+                durationMs: Date.now() - firedAt,
+                error: errorMessage,
+                eventIds: effects.eventIds,
+            });
+        }
+    }
+
+    private async _execute(task: ITask, effects: ISchedulerEffects) {
+        const interestRoom = this.conference.getInterestRoom(task.talk.conference_room);
+        if (interestRoom) {
+            await this.executeInterestTask(task, interestRoom, effects);
+            return;
+        }
+
         const confTalk = this.conference.getTalk(task.talk.event_id);
         const confAud = this.conference.getAuditorium(task.talk.conference_room);
         const confAudBackstage = this.conference.getAuditoriumBackstage(task.talk.conference_room);
 
         if (!confAud || !confTalk || !confAudBackstage) {
-            // probably a special interest room
             LogService.warn("Scheduler", `Skipping task ${task.id} - Unknown auditorium or talk`);
             return;
         }
 
-        switch (task.type) {
+        if (await confTalk.isCancelled()) {
+            LogService.warn("Scheduler", `Skipping task ${task.id} - Talk has been cancelled`);
+            return;
+        }
+
+        const timelineTask = task.timelineTask;
+        if (timelineTask.prerecorded !== undefined && timelineTask.prerecorded !== task.talk.prerecorded) {
+            return;
+        }
+
+        const audId = task.talk.conference_room;
+        const variables = await this.getMessageVariables(task, confTalk, confAud);
+
+        if (timelineTask.template || timelineTask.message) {
+            const roomId = this.getTimelineRoomId(timelineTask.room, confTalk, confAud, confAudBackstage);
+            const locale = getLocale(roomId === config.managementRoom ? undefined : audId);
+            const message = timelineTask.template
+                ? await renderMessage(timelineTask.template, variables, locale)
+                : await renderInlineMessage(timelineTask.message, variables);
+            await effects.sendMessage(roomId, message);
+        }
+
+        switch (timelineTask.kind) {
+            case undefined:
+                break;
             case ScheduledTaskType.TalkStart: {
-                await this.scoreboard.resetScoreboard(confAud.roomId);
-                if (!task.talk.prerecorded) {
-                    await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk is not pre-recorded.</h3><p>You are entering the Q&A for your talk's duration now.</p>`);
-                    await this.client.sendHtmlText(
-                        confAud.roomId,
-                        `<h3>${await confTalk.getName()}</h3>` +
-                        `<p><b>There is no video for this talk.</b> ` +
-                        `Ask your questions here and they'll try to answer them! ` +
-                        `The questions with the most 👍 votes are most visible to the speaker.</p>`,
-                    );
-                    return;
-                }
-                await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk is starting shortly.</h3>`);
-                await this.client.sendHtmlText(
-                    confAud.roomId,
-                    `<h3>Up next: ${await confTalk.getName()}</h3>` +
-                    `<p>During the talk, you can ask questions here for the Q&A at the end. ` +
-                    `The questions with the most 👍 votes are most visible to the speaker.</p>`,
-                );
+                await effects.resetScoreboard(confAud.roomId, task.talk.event_id);
+                await this.announce(effects, confTalk.roomId, "talk_start.talk", variables, audId);
+                await this.announce(effects, confAud.roomId, "talk_start.auditorium", variables, audId);
 
                 break;
             }
             case ScheduledTaskType.TalkQA: {
                 if (!task.talk.prerecorded) return;
-                await this.client.sendHtmlText(
-                    confTalk.roomId,
-                    `<h3>Your Q&A is starting NOW</h3>` +
-                    `<p>Remember that the broadcast feed is buffered and lags many seconds behind. ` +
-                    `Do not wait for it to finish, otherwise you will create a long pause!</p>`,
-                );
-                await this.client.sendHtmlText(
-                    confAud.roomId,
-                    `<h3>Q&A is starting shortly</h3>` +
-                    `<p>Ask questions in this room for the speakers - the questions with the most 👍 votes are most visible to the speaker.</p>`,
-                );
+                await this.announce(effects, confTalk.roomId, "qa_start.talk", variables, audId);
+                await this.announce(effects, confAud.roomId, "qa_start.auditorium", variables, audId);
 
                 break;
             }
             case ScheduledTaskType.TalkEnd: {
-                await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk has ended - opening up this room to all attendees.</h3><p>@room - They won't see the history in this room.</p>`);
+                await effects.archiveQA(task.talk.event_id);
+                await this.announce(effects, confTalk.roomId, "talk_end.talk", variables, audId);
                 const widget = await LiveWidget.forTalk(confTalk, this.client);
                 const layout = await LiveWidget.layoutForTalk(widget);
                 const scoreboard = await LiveWidget.scoreboardForTalk(confTalk, this.client);
-                await this.client.sendStateEvent(confTalk.roomId, widget.type, widget.state_key, widget.content);
-                await this.client.sendStateEvent(confTalk.roomId, scoreboard.type, scoreboard.state_key, {});
-                await this.client.sendStateEvent(confTalk.roomId, layout.type, layout.state_key, layout.content);
-                await makeRoomPublic(confTalk.roomId, this.client);
-                const talkPill = await MentionPill.forRoom(confTalk.roomId, this.client);
-                await this.client.sendHtmlText(confAud.roomId, `<h3>The talk will end shortly</h3><p>If the speakers are available, they'll be hanging out in ${talkPill.html}</p>`);
+                await effects.sendStateEvent(confTalk.roomId, widget.type, widget.state_key, widget.content);
+                await effects.sendStateEvent(confTalk.roomId, scoreboard.type, scoreboard.state_key, {});
+                await effects.sendStateEvent(confTalk.roomId, layout.type, layout.state_key, layout.content);
+                await effects.makeRoomPublic(confTalk.roomId);
+                await this.announce(effects, confAud.roomId, "talk_end.auditorium", variables, audId);
 
                 break;
             }
             case ScheduledTaskType.TalkStart1H: {
-                if (!task.talk.prerecorded) {
-                    await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk starts in about 1 hour</h3><p><b>Your talk is not pre-recorded.</b> You will have your talk's full duration be Q&A.</p>`);
-                } else {
-                    await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk starts in about 1 hour</h3><p>Please say something (anything) in this room to check in.</p>`);
-
+                if (task.talk.prerecorded) {
                     const userIds = await this.conference.getInviteTargetsForTalk(confTalk);
                     const identifiers = await resolveIdentifiers(userIds);
                     const resolved = identifiers.filter(p => p.mxid).map(p => p.mxid);
-                    await config.RUNTIME.checkins.expectCheckinFrom(resolved);
+                    await effects.expectCheckinFrom(task.talk.event_id, confTalk.roomId, resolved);
+                    await this.sendCheckinPrompt(effects, task, confTalk.roomId, "talk_start_1h.talk", variables, audId);
+                } else {
+                    await this.announce(effects, confTalk.roomId, "talk_start_1h.talk", variables, audId);
                 }
 
                 break;
             }
             case ScheduledTaskType.TalkStart5M: {
-                if (!task.talk.prerecorded) {
-                    await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk starts in about 5 minutes</h3><p><b>Your talk is not pre-recorded.</b> Your talk's full duration will be Q&A.</p>`);
-                } else {
-                    await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk starts in about 5 minutes</h3><p>Please join the Jitsi conference at the top of this room to prepare for your Q&A.</p>`);
-                }
+                await this.announce(effects, confTalk.roomId, "talk_start_5m.talk", variables, audId);
 
                 break;
             }
@@ -397,30 +795,24 @@ export class Scheduler {
                 }
 
                 if (!task.talk.prerecorded) return;
-                await this.client.sendHtmlText(
-                    confTalk.roomId,
-                    `<h3>Your Q&A starts in 5 minutes</h3>` +
-                    `<p>The upvoted questions appear in the "Upvoted messages" widget next to the Jitsi conference. Prepare your answers!</p>` +
-                    `<p>Remember that the broadcast feed is buffered and lags many seconds behind. ` +
-                    `Do not wait for it to finish, otherwise you will create a long pause!</p>`,
-                );
-                await this.scoreboard.showQACountdown(confAud.roomId, task.talk.qa_start_datetime);
+                await this.announce(effects, confTalk.roomId, "qa_start_5m.talk", variables, audId);
+                await effects.showQACountdown(confAud.roomId, task.talk.qa_start_datetime);
 
                 break;
             }
             case ScheduledTaskType.TalkEnd5M: {
-                await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk ends in about 5 minutes</h3><p>The next talk will start automatically after yours. In 5 minutes, this room will be opened up for anyone to join. They will not be able to see history.</p>`);
-                await this.client.sendHtmlText(confAud.roomId, `<h3>This talk ends in about 5 minutes</h3><p>Ask questions here for the speakers!</p>`);
+                await this.announce(effects, confTalk.roomId, "talk_end_5m.talk", variables, audId);
+                await this.announce(effects, confAud.roomId, "talk_end_5m.auditorium", variables, audId);
 
                 break;
             }
             case ScheduledTaskType.TalkLivestreamEnd1M: {
-                await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk ends in about 1 minute!</h3><p>The next talk will start automatically after yours. Wrap it up!</p>`);
+                await this.announce(effects, confTalk.roomId, "livestream_end_1m.talk", variables, audId);
 
                 break;
             }
             case ScheduledTaskType.TalkEnd1M: {
-                await this.client.sendHtmlText(confAud.roomId, `<h3>This talk ends in about 1 minute!</h3>`);
+                await this.announce(effects, confAud.roomId, "talk_end_1m.auditorium", variables, audId);
 
                 break;
             }
@@ -436,10 +828,8 @@ export class Scheduler {
                 for (const person of required) {
                     if (!person.mxid) {
                         missing.push(person);
-                    } else if (!config.RUNTIME.checkins.isCheckedIn(person.mxid)) {
+                    } else if (!effects.isCheckedIn(task.talk.event_id, person.mxid)) {
                         missing.push(person);
-                    } else {
-                        await config.RUNTIME.checkins.extendCheckin(person.mxid);
                     }
                 }
                 if (missing.length > 0) {
@@ -449,16 +839,21 @@ export class Scheduler {
                             const pill = await MentionPill.forUser(person.mxid, confTalk.roomId, this.client);
                             pills.push(pill.html);
                         } else {
-                            pills.push(`<b>${person.person.name}</b>`);
+                            pills.push(`<b>${htmlEscape(person.person.name)}</b>`);
                         }
                     }
+                    const missingVariables = {
+                        ...variables,
+                        missing: pills.join(', '),
+                        missingNames: missing.map(p => p.person.name),
+                    };
 
-                    await this.client.sendHtmlText(confTalk.roomId, `<h3>Your talk starts in about 45 minutes</h3><p>${pills.join(', ')} - Please say something (anything) in this room to check in.</p>`);
+                    await this.sendCheckinPrompt(effects, task, confTalk.roomId, "checkin_45m.talk", missingVariables, audId);
 
                     const userIds = await this.conference.getInviteTargetsForTalk(confTalk);
                     const identifiers = await resolveIdentifiers(userIds);
                     const resolved = identifiers.filter(p => p.mxid).map(p => p.mxid);
-                    await config.RUNTIME.checkins.expectCheckinFrom(resolved);
+                    await effects.expectCheckinFrom(task.talk.event_id, confTalk.roomId, resolved);
                 }
 
                 break;
@@ -475,10 +870,8 @@ export class Scheduler {
                 for (const person of required) {
                     if (!person.mxid) {
                         missing.push(person);
-                    } else if (!config.RUNTIME.checkins.isCheckedIn(person.mxid)) {
+                    } else if (!effects.isCheckedIn(task.talk.event_id, person.mxid)) {
                         missing.push(person);
-                    } else {
-                        await config.RUNTIME.checkins.extendCheckin(person.mxid);
                     }
                 }
                 if (missing.length > 0) {
@@ -488,16 +881,21 @@ export class Scheduler {
                             const pill = await MentionPill.forUser(person.mxid, confTalk.roomId, this.client);
                             pills.push(pill.html);
                         } else {
-                            pills.push(`<b>${person.person.name}</b>`);
+                            pills.push(`<b>${htmlEscape(person.person.name)}</b>`);
                         }
                     }
-                    await this.client.sendHtmlText(confTalk.roomId, `<h3>Please check in.</h3><p>${pills.join(', ')} - It does not appear as though you are present for your talk. Please say something in this room.</p>`);
-                    await this.client.sendHtmlText(confAudBackstage.roomId, `<h3>Required persons not checked in for upcoming talk</h3><p>Please track down the speakers for <b>${await confTalk.getName()}</b>.</p><p>Missing: ${pills.join(', ')}</p>`);
+                    const missingVariables = {
+                        ...variables,
+                        missing: pills.join(', '),
+                        missingNames: missing.map(p => p.person.name),
+                    };
+                    await this.sendCheckinPrompt(effects, task, confTalk.roomId, "checkin_30m.talk", missingVariables, audId);
+                    await this.announce(effects, confAudBackstage.roomId, "checkin_30m.backstage", missingVariables, audId);
 
                     const userIds = await this.conference.getInviteTargetsForTalk(confTalk);
                     const identifiers = await resolveIdentifiers(userIds);
                     const resolved = identifiers.filter(p => p.mxid).map(p => p.mxid);
-                    await config.RUNTIME.checkins.expectCheckinFrom(resolved);
+                    await effects.expectCheckinFrom(task.talk.event_id, confTalk.roomId, resolved);
                 } // else no complaints
 
                 break;
@@ -514,10 +912,8 @@ export class Scheduler {
                 for (const person of required) {
                     if (!person.mxid) {
                         missing.push(person);
-                    } else if (!config.RUNTIME.checkins.isCheckedIn(person.mxid)) {
+                    } else if (!effects.isCheckedIn(task.talk.event_id, person.mxid)) {
                         missing.push(person);
-                    } else {
-                        await config.RUNTIME.checkins.extendCheckin(person.mxid);
                     }
                 }
                 if (missing.length > 0) {
@@ -527,53 +923,339 @@ export class Scheduler {
                             const pill = await MentionPill.forUser(person.mxid, confTalk.roomId, this.client);
                             pills.push(pill.html);
                         } else {
-                            pills.push(`<b>${person.person.name}</b>`);
+                            pills.push(`<b>${htmlEscape(person.person.name)}</b>`);
                         }
                     }
-                    const roomPill = await MentionPill.forRoom(confTalk.roomId, this.client);
-                    await this.client.sendHtmlText(config.managementRoom, `<h3>Talk is missing speakers</h3><p>${roomPill.html} is missing one or more speakers: ${pills.join(', ')}</p><p>The talk starts in about 15 minutes.</p>`);
-                    await this.client.sendHtmlText(confTalk.roomId, `<h3>@room - please check in.</h3><p>${pills.join(', ')} - It does not appear as though you are present for your talk. Please say something in this room. The conference staff have been notified.</p>`);
-                    await this.client.sendHtmlText(confAudBackstage.roomId, `<h3>Required persons not checked in for upcoming talk</h3><p>Please track down the speakers for <b>${await confTalk.getName()}</b>. The conference staff have been notified.</p><p>Missing: ${pills.join(', ')}</p>`);
+                    const missingVariables = {
+                        ...variables,
+                        missing: pills.join(', '),
+                        missingNames: missing.map(p => p.person.name),
+                    };
+                    await this.announce(effects, config.managementRoom, "checkin_15m.management", missingVariables);
+                    await this.sendCheckinPrompt(effects, task, confTalk.roomId, "checkin_15m.talk", missingVariables, audId);
+                    await this.escalateMissingCheckins(task, effects, confAud, confAudBackstage, missing, missingVariables);
 
                     const userIds = await this.conference.getInviteTargetsForTalk(confTalk);
                     const identifiers = await resolveIdentifiers(userIds);
                     const resolved = identifiers.filter(p => p.mxid).map(p => p.mxid);
-                    await config.RUNTIME.checkins.expectCheckinFrom(resolved);
+                    await effects.expectCheckinFrom(task.talk.event_id, confTalk.roomId, resolved);
                 } // else no complaints
 
                 break;
             }
             default: {
-                await logMessage(LogLevel.WARN, "Scheduler", `Unknown task type for execute(): ${task.type}`);
+                await logMessage(LogLevel.WARN, "Scheduler", `Unknown task kind for execute(): ${timelineTask.kind}`);
             }
         }
     }
 
-    public async tryScheduleTask(type: ScheduledTaskType, talk: IDbTalk) {
-        const id = makeTaskId(type, talk);
-        const existingTask = this.pending[id];
-        if (existingTask) return;
+    /**
+     * Executes a task for a session in a special interest room. Interest rooms have no talk
+     * room or backstage, so everything happens in the interest room itself.
+     * @param task The task to execute.
+     * @param interestRoom The interest room the session is in.
+     * @param effects How to act on the world.
+     */
+    private async executeInterestTask(task: ITask, interestRoom: InterestRoom, effects: ISchedulerEffects) {
+        const timelineTask = task.timelineTask;
+        if (timelineTask.prerecorded !== undefined && timelineTask.prerecorded !== task.talk.prerecorded) {
+            return;
+        }
+
+        const interestId = await interestRoom.getId();
+        const variables = await this.getInterestMessageVariables(task, interestRoom);
+
+        if (timelineTask.template || timelineTask.message) {
+            const roomId = timelineTask.room === TimelineRoom.Management ? config.managementRoom : interestRoom.roomId;
+            const locale = getLocale(roomId === config.managementRoom ? undefined : interestId);
+            const message = timelineTask.template
+                ? await renderMessage(timelineTask.template, variables, locale)
+                : await renderInlineMessage(timelineTask.message, variables);
+            await effects.sendMessage(roomId, message);
+        }
+
+        switch (timelineTask.kind) {
+            case undefined:
+                break;
+            case ScheduledTaskType.InterestStart1H: {
+                const hosts = await this.getInterestHosts(interestRoom);
+                await effects.expectCheckinFrom(task.talk.event_id, interestRoom.roomId, hosts.filter(p => p.mxid).map(p => p.mxid));
+                await this.sendCheckinPrompt(effects, task, interestRoom.roomId, "interest_start_1h.interest", variables, interestId);
+
+                break;
+            }
+            case ScheduledTaskType.InterestCheckin15M: {
+                const hosts = await this.getInterestHosts(interestRoom);
+                const missing: ResolvedPersonIdentifier[] = [];
+                for (const person of hosts) {
+                    if (!person.mxid || !effects.isCheckedIn(task.talk.event_id, person.mxid)) {
+                        missing.push(person);
+                    }
+                }
+                if (missing.length > 0) {
+                    const pills: string[] = [];
+                    for (const person of missing) {
+                        if (person.mxid) {
+                            const pill = await MentionPill.forUser(person.mxid, interestRoom.roomId, this.client);
+                            pills.push(pill.html);
+                        } else {
+                            pills.push(`<b>${htmlEscape(person.person.name)}</b>`);
+                        }
+                    }
+                    const missingVariables = {
+                        ...variables,
+                        missing: pills.join(', '),
+                        missingNames: missing.map(p => p.person.name),
+                    };
+                    await this.announce(effects, config.managementRoom, "interest_checkin_15m.management", missingVariables);
+                    await this.sendCheckinPrompt(effects, task, interestRoom.roomId, "interest_checkin_15m.interest", missingVariables, interestId);
+                    await effects.expectCheckinFrom(task.talk.event_id, interestRoom.roomId, hosts.filter(p => p.mxid).map(p => p.mxid));
+                } // else no complaints
+
+                break;
+            }
+            case ScheduledTaskType.InterestStart5M: {
+                await this.announce(effects, interestRoom.roomId, "interest_start_5m.interest", variables, interestId);
+
+                break;
+            }
+            case ScheduledTaskType.InterestStart: {
+                await this.announce(effects, interestRoom.roomId, "interest_start.interest", variables, interestId);
+
+                break;
+            }
+            case ScheduledTaskType.InterestEnd5M: {
+                await this.announce(effects, interestRoom.roomId, "interest_end_5m.interest", variables, interestId);
+
+                break;
+            }
+            case ScheduledTaskType.InterestEnd: {
+                await this.announce(effects, interestRoom.roomId, "interest_end.interest", variables, interestId);
+
+                break;
+            }
+            default: {
+                await logMessage(LogLevel.WARN, "Scheduler", `Task kind ${timelineTask.kind} cannot run in interest room ${interestId}`);
+            }
+        }
+    }
+
+    /**
+     * Flags a talk as at risk because people haven't checked in for it, and asks the auditorium's
+     * coordinators to track them down in the backstage and the coordinators' support room.
+     * @param task The check-in task.
+     * @param effects How to act on the world.
+     * @param confAud The talk's auditorium.
+     * @param confAudBackstage The auditorium's backstage.
+     * @param missing The people who haven't checked in.
+     * @param variables The variables to render the escalation messages with.
+     */
+    private async escalateMissingCheckins(
+        task: ITask,
+        effects: ISchedulerEffects,
+        confAud: Auditorium,
+        confAudBackstage: AuditoriumBackstage,
+        missing: ResolvedPersonIdentifier[],
+        variables: object,
+    ) {
+        const audId = task.talk.conference_room;
+        const coordinators = await resolveIdentifiers(await this.conference.getModeratorsForAuditorium(confAud));
+        const coordinatorsRoomId = await this.getCoordinatorsRoomId();
+        const roomIds = [confAudBackstage.roomId];
+        if (coordinatorsRoomId) roomIds.push(coordinatorsRoomId);
+
+        const escalations: IEscalationMessage[] = [];
+        for (const roomId of roomIds) {
+            const pills: string[] = [];
+            for (const person of coordinators) {
+                if (person.mxid) {
+                    const pill = await MentionPill.forUser(person.mxid, roomId, this.client);
+                    pills.push(pill.html);
+                } else {
+                    pills.push(`<b>${htmlEscape(person.person.name)}</b>`);
+                }
+            }
+            const escalationVariables = {
+                ...variables,
+                coordinators: pills.join(', '),
+                coordinatorNames: coordinators.map(p => p.person.name),
+                acknowledgeReaction: ACKNOWLEDGE_REACTION,
+                resolveReaction: RESOLVE_REACTION,
+            };
+            const isBackstage = roomId === confAudBackstage.roomId;
+            const message = await renderMessage(
+                isBackstage ? "checkin_15m.backstage" : "checkin_15m.coordinators",
+                escalationVariables,
+                getLocale(isBackstage ? audId : undefined),
+            );
+            escalations.push({ roomId, message });
+        }
+
+        await effects.raiseCheckinAlert({
+            talkId: task.talk.event_id,
+            auditoriumId: audId,
+            startTime: task.talk.start_datetime,
+            missingNames: missing.map(p => p.person.name),
+            missingUserIds: missing.filter(p => p.mxid).map(p => p.mxid),
+        }, escalations);
+    }
+
+    /**
+     * Finds the coordinators' support room.
+     * @returns The room ID, if the room exists; `undefined` otherwise.
+     */
+    private async getCoordinatorsRoomId(): Promise<string | undefined> {
+        try {
+            return await this.client.resolveRoom(config.conference.supportRooms.coordinators);
+        } catch (error) {
+            LogService.warn("Scheduler", `Cannot find the coordinators' support room: ${error?.message ?? error}`);
+            return undefined;
+        }
+    }
+
+    private async getInterestHosts(interestRoom: InterestRoom): Promise<ResolvedPersonIdentifier[]> {
+        const people = await this.conference.getInviteTargetsForInterest(interestRoom);
+        const resolved = await resolveIdentifiers(people);
+        return resolved.filter(p => p.person.event_role === Role.Speaker || p.person.event_role === Role.Host);
+    }
+
+    /**
+     * Renders a message template and sends it to a room.
+     * @param effects The effects to send the message through.
+     * @param roomId The room to send the message to.
+     * @param templateName The name of the message template.
+     * @param variables The variables to render the template with.
+     * @param auditoriumId The auditorium whose locale the message should be written in, if any.
+     */
+    private async announce(effects: ISchedulerEffects, roomId: string, templateName: string, variables: object, auditoriumId?: string) {
+        const message = await renderMessage(templateName, variables, getLocale(auditoriumId));
+        await effects.sendMessage(roomId, message);
+    }
+
+    /**
+     * Renders a message template asking people to check in for a talk, and sends it to a room.
+     * People can check in by reacting to it.
+     * @param effects The effects to send the message through.
+     * @param task The task the prompt is for.
+     * @param roomId The room to send the message to.
+     * @param templateName The name of the message template.
+     * @param variables The variables to render the template with.
+     * @param auditoriumId The auditorium whose locale the message should be written in.
+     */
+    private async sendCheckinPrompt(effects: ISchedulerEffects, task: ITask, roomId: string, templateName: string, variables: object, auditoriumId: string) {
+        const message = await renderMessage(templateName, variables, getLocale(auditoriumId));
+        await effects.sendCheckinPrompt(task.talk.event_id, roomId, message);
+    }
+
+    private async getMessageVariables(task: ITask, confTalk: Talk, confAud: Auditorium): Promise<object> {
+        const definition = await confTalk.getDefinition();
+        const people = await this.conference.getPeopleForTalk(confTalk);
+        const talkPill = await MentionPill.forRoom(confTalk.roomId, this.client);
+        const audPill = await MentionPill.forRoom(confAud.roomId, this.client);
+        return {
+            talk: {
+                id: task.talk.event_id,
+                title: definition.title,
+                subtitle: definition.subtitle,
+                track: definition.track,
+                prerecorded: task.talk.prerecorded,
+                roomId: confTalk.roomId,
+                pill: talkPill.html,
+                startTime: formatTime(task.talk.start_datetime),
+                qaStartTime: formatTime(task.talk.qa_start_datetime),
+                endTime: formatTime(task.talk.end_datetime),
+                livestreamEndTime: formatTime(task.talk.livestream_end_datetime),
+            },
+            auditorium: {
+                id: task.talk.conference_room,
+                name: await confAud.getName(),
+                roomId: confAud.roomId,
+                pill: audPill.html,
+            },
+            speakers: people.filter(p => p.event_role === Role.Speaker).map(p => p.name),
+            minutes: Math.abs(task.timelineTask.offsetMinutes),
+            upvoteReaction: getUpvoteReaction(),
+        };
+    }
+
+    private async getInterestMessageVariables(task: ITask, interestRoom: InterestRoom): Promise<object> {
+        const people = await this.getInterestHosts(interestRoom);
+        const pill = await MentionPill.forRoom(interestRoom.roomId, this.client);
+        return {
+            session: {
+                id: task.talk.event_id,
+                prerecorded: task.talk.prerecorded,
+                startTime: formatTime(task.talk.start_datetime),
+                endTime: formatTime(task.talk.end_datetime),
+            },
+            interest: {
+                id: await interestRoom.getId(),
+                name: await interestRoom.getName(),
+                roomId: interestRoom.roomId,
+                pill: pill.html,
+            },
+            hosts: people.map(p => p.person.name),
+            minutes: Math.abs(task.timelineTask.offsetMinutes),
+            upvoteReaction: getUpvoteReaction(),
+        };
+    }
+
+    /**
+     * Gets the timeline which applies to a talk, which depends on the kind of room it is in.
+     * @param talk The talk.
+     * @returns The timeline.
+     */
+    private getTimelineFor(talk: IDbTalk): ITimelineTask[] {
+        return this.conference.getInterestRoom(talk.conference_room) ? this.interestTimeline : this.timeline;
+    }
+
+    private getTimelineRoomId(room: TimelineRoom | undefined, confTalk: Talk, confAud: Auditorium, confAudBackstage: AuditoriumBackstage): string {
+        switch (room) {
+            case TimelineRoom.Auditorium:
+                return confAud.roomId;
+            case TimelineRoom.Backstage:
+                return confAudBackstage.roomId;
+            case TimelineRoom.Management:
+                return config.managementRoom;
+            default:
+                return confTalk.roomId;
+        }
+    }
+
+    public async addAuditorium(audId: string) {
+        this.inAuditoriums.push(audId);
 
         await this.lock.acquireAsync();
         try {
-            const isCompleted = this.completedIds.includes(id);
-            if (!isCompleted && this.isWatchingAuditorium(talk.conference_room)) {
-                this.pending[id] = { id, type, talk };
-                LogService.debug("Scheduler", `Task ${id} scheduled`);
-            } else {
-                if (isCompleted) LogService.debug("Scheduler", `Ignoring re-scheduled completed task: ${id}`);
-                else LogService.warn("Scheduler", `Ignoring task in unwatched auditorium: ${id}`);
-            }
+            await this.persistProgress();
         } finally {
             this.lock.release();
         }
+        await this.refresh();
     }
 
-    public async addAuditorium(audId: string) {
-        this.inAuditoriums.push(audId);
+    /**
+     * Stops running the schedule in an auditorium, and drops its pending tasks. If the scheduler
+     * is running every auditorium, it carries on running the others.
+     * @param audId The ID of the auditorium.
+     */
+    public async removeAuditorium(audId: string) {
+        const allIds: string[] = [];
+        if (this.inAuditoriums.includes("all")) {
+            for (const room of [...this.conference.storedAuditoriums, ...this.conference.storedInterestRooms]) {
+                allIds.push(await room.getId());
+            }
+        }
 
         await this.lock.acquireAsync();
         try {
+            if (this.inAuditoriums.includes("all")) {
+                this.inAuditoriums = allIds;
+            }
+            this.inAuditoriums = this.inAuditoriums.filter(a => a !== audId);
+            for (const task of Object.values(this.pending)) {
+                if (task.talk.conference_room === audId) this.unscheduleTask(task.id);
+            }
             await this.persistProgress();
         } finally {
             this.lock.release();
@@ -584,12 +1266,53 @@ export class Scheduler {
         return this.inAuditoriums.includes(audId) || this.inAuditoriums.includes("all");
     }
 
+    /**
+     * Pauses the schedule in an auditorium. Its tasks are held until it is resumed, after which
+     * any which are still within the lookahead window run late. Tasks further behind than that
+     * are dropped.
+     * @param audId The ID of the auditorium.
+     */
+    public async pauseAuditorium(audId: string) {
+        await this.lock.acquireAsync();
+        try {
+            if (this.pausedAuditoriums.includes(audId)) return;
+            this.pausedAuditoriums.push(audId);
+            await this.persistProgress();
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    /**
+     * Resumes the schedule in an auditorium which has been paused.
+     * @param audId The ID of the auditorium.
+     */
+    public async resumeAuditorium(audId: string) {
+        await this.lock.acquireAsync();
+        try {
+            this.pausedAuditoriums = this.pausedAuditoriums.filter(a => a !== audId);
+            await this.persistProgress();
+        } finally {
+            this.lock.release();
+        }
+        await this.refresh();
+    }
+
+    public isAuditoriumPaused(audId: string) {
+        return this.pausedAuditoriums.includes(audId);
+    }
+
+    public getPausedAuditoriums(): string[] {
+        return [...this.pausedAuditoriums];
+    }
+
     public async stop() {
         await this.lock.acquireAsync();
         LogService.warn("Scheduler", "Stopping scheduler...");
         try {
-            this.pending = {};
+            for (const taskId of Object.keys(this.pending)) this.unscheduleTask(taskId);
             this.inAuditoriums = [];
+            this.pausedAuditoriums = [];
             await this.persistProgress();
         } finally {
             this.lock.release();
@@ -0,0 +1,200 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { LogService, MatrixClient } from "matrix-bot-sdk";
+import * as htmlEscape from "escape-html";
+import { DateTime } from "luxon";
+import config from "./config";
+import { Scoreboard } from "./Scoreboard";
+import { IRenderedMessage, sendRenderedMessage } from "./messages";
+import { makeRoomPublic } from "./utils";
+import { NewCheckinAlert } from "./CheckinAlerts";
+
+/**
+ * A message escalating an alert, sent to a room where it can be acknowledged or resolved.
+ */
+export interface IEscalationMessage {
+    roomId: string;
+    message: IRenderedMessage;
+}
+
+/**
+ * The ways in which the scheduler's tasks act on the world. Tasks only have side effects through
+ * this interface, so that they can be simulated.
+ */
+export interface ISchedulerEffects {
+    sendMessage(roomId: string, message: IRenderedMessage): Promise<void>;
+    sendStateEvent(roomId: string, type: string, stateKey: string, content: object): Promise<void>;
+    makeRoomPublic(roomId: string): Promise<void>;
+    resetScoreboard(roomId: string, talkId: string): Promise<void>;
+    archiveQA(talkId: string): Promise<void>;
+    showQACountdown(roomId: string, qaStartTime: number): Promise<void>;
+    sendCheckinPrompt(talkId: string, roomId: string, message: IRenderedMessage): Promise<void>;
+    isCheckedIn(talkId: string, userId: string): boolean;
+    expectCheckinFrom(talkId: string, roomId: string, userIds: string[]): Promise<void>;
+    raiseCheckinAlert(alert: Omit<NewCheckinAlert, "eventIds">, escalations: IEscalationMessage[]): Promise<void>;
+}
+
+/**
+ * Carries out the scheduler's tasks for real.
+ */
+export class LiveSchedulerEffects implements ISchedulerEffects {
+    public readonly eventIds: string[] = []; // the events which have been sent
+
+    constructor(private client: MatrixClient, private scoreboard: Scoreboard) { }
+
+    public async sendMessage(roomId: string, message: IRenderedMessage) {
+        this.eventIds.push(await sendRenderedMessage(this.client, roomId, message));
+    }
+
+    public async sendStateEvent(roomId: string, type: string, stateKey: string, content: object) {
+        this.eventIds.push(await this.client.sendStateEvent(roomId, type, stateKey, content));
+    }
+
+    public async makeRoomPublic(roomId: string) {
+        await makeRoomPublic(roomId, this.client);
+    }
+
+    public async resetScoreboard(roomId: string, talkId: string) {
+        // Keep the previous talk's questions if they weren't archived when it ended
+        const previousTalkId = this.scoreboard.getScoreboard(roomId)?.talkId;
+        if (previousTalkId && previousTalkId !== talkId && !await config.RUNTIME.qaArchive.get(previousTalkId)) {
+            await this.archiveQA(previousTalkId);
+        }
+        await this.scoreboard.resetScoreboard(roomId, talkId);
+    }
+
+    public async archiveQA(talkId: string) {
+        const archive = await config.RUNTIME.qaArchive.snapshot(talkId);
+        if (!archive) {
+            LogService.info("SchedulerEffects", `Not archiving the Q&A for ${talkId}: the scoreboard is not for that talk`);
+            return;
+        }
+        this.eventIds.push(await config.RUNTIME.qaArchive.publish(archive));
+    }
+
+    public async showQACountdown(roomId: string, qaStartTime: number) {
+        await this.scoreboard.showQACountdown(roomId, qaStartTime);
+    }
+
+    public async sendCheckinPrompt(talkId: string, roomId: string, message: IRenderedMessage) {
+        const eventId = await sendRenderedMessage(this.client, roomId, message);
+        this.eventIds.push(eventId);
+        await config.RUNTIME.checkins.addPrompt(talkId, roomId, eventId);
+    }
+
+    public isCheckedIn(talkId: string, userId: string): boolean {
+        return config.RUNTIME.checkins.isCheckedIn(talkId, userId);
+    }
+
+    public async expectCheckinFrom(talkId: string, roomId: string, userIds: string[]) {
+        await config.RUNTIME.checkins.expectCheckinFrom(talkId, roomId, userIds);
+    }
+
+    public async raiseCheckinAlert(alert: Omit<NewCheckinAlert, "eventIds">, escalations: IEscalationMessage[]) {
+        const eventIds: { [roomId: string]: string } = {};
+        for (const escalation of escalations) {
+            eventIds[escalation.roomId] = await sendRenderedMessage(this.client, escalation.roomId, escalation.message);
+            this.eventIds.push(eventIds[escalation.roomId]);
+        }
+        await config.RUNTIME.checkinAlerts.raise({ ...alert, eventIds });
+    }
+}
+
+export interface ISimulatedTask {
+    id: string;
+    name: string;
+    talkId: string;
+    auditoriumId: string;
+    time: number;
+    effects: string[]; // HTML
+}
+
+/**
+ * Records what the scheduler's tasks would do, without doing any of it. Nobody is assumed to
+ * check in.
+ */
+export class SimulatedSchedulerEffects implements ISchedulerEffects {
+    public readonly tasks: ISimulatedTask[] = [];
+    private roomNames: { [roomId: string]: string } = {};
+
+    /**
+     * Starts recording the effects of a task.
+     * @param task The task, without any effects yet.
+     * @param roomNames Descriptions of the rooms the task may act on.
+     */
+    public startTask(task: Omit<ISimulatedTask, "effects">, roomNames: { [roomId: string]: string }) {
+        this.tasks.push({ ...task, effects: [] });
+        this.roomNames = roomNames;
+    }
+
+    /**
+     * Records an effect of the current task.
+     * @param html A description of the effect.
+     */
+    public record(html: string) {
+        this.tasks[this.tasks.length - 1]?.effects.push(html);
+    }
+
+    private describeRoom(roomId: string): string {
+        return htmlEscape(this.roomNames[roomId] ?? roomId);
+    }
+
+    public async sendMessage(roomId: string, message: IRenderedMessage) {
+        this.record(`Message to the ${this.describeRoom(roomId)}:<blockquote>${message.html}</blockquote>`);
+    }
+
+    public async sendStateEvent(roomId: string, type: string, stateKey: string, content: object) {
+        const action = Object.keys(content || {}).length > 0 ? "Update" : "Remove";
+        this.record(`${action} <code>${htmlEscape(type)}</code> in the ${this.describeRoom(roomId)}`);
+    }
+
+    public async makeRoomPublic(roomId: string) {
+        this.record(`Open the ${this.describeRoom(roomId)} to everyone`);
+    }
+
+    public async resetScoreboard(roomId: string, talkId: string) {
+        this.record(`Reset the Q&A scoreboard for the ${this.describeRoom(roomId)} for <code>${htmlEscape(talkId)}</code>`);
+    }
+
+    public async archiveQA(talkId: string) {
+        this.record(`Archive the Q&A questions for <code>${htmlEscape(talkId)}</code> and post them to its talk room`);
+    }
+
+    public async showQACountdown(roomId: string, qaStartTime: number) {
+        const qaStart = DateTime.fromMillis(qaStartTime, { zone: config.conference.timezone }).toFormat("HH:mm");
+        this.record(`Show a countdown to the Q&A at ${qaStart} in the ${this.describeRoom(roomId)}`);
+    }
+
+    public async sendCheckinPrompt(talkId: string, roomId: string, message: IRenderedMessage) {
+        this.record(`Check-in prompt to the ${this.describeRoom(roomId)}:<blockquote>${message.html}</blockquote>`);
+    }
+
+    public isCheckedIn(): boolean {
+        return false;
+    }
+
+    public async expectCheckinFrom(talkId: string, roomId: string, userIds: string[]) {
+        this.record(`Expect ${userIds.length} people to check in: ${htmlEscape(userIds.join(", "))}`);
+    }
+
+    public async raiseCheckinAlert(alert: Omit<NewCheckinAlert, "eventIds">, escalations: IEscalationMessage[]) {
+        for (const escalation of escalations) {
+            await this.sendMessage(escalation.roomId, escalation.message);
+        }
+        this.record(`Flag <code>${htmlEscape(alert.talkId)}</code> as at risk, missing ${htmlEscape(alert.missingNames.join(", "))}`);
+    }
+}
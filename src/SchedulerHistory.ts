@@ -0,0 +1,108 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { LogService } from "matrix-bot-sdk";
+import AwaitLock from "await-lock";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import config from "./config";
+
+export enum TaskTrigger {
+    Schedule = "schedule",
+    Execute = "execute", // run for debugging, and may run again
+    Fire = "fire", // run early by hand
+}
+
+/**
+ * A record of one run of a scheduler task.
+ */
+export interface ITaskExecution {
+    taskId: string;
+    name: string;
+    talkId: string;
+    auditoriumId: string;
+    trigger: TaskTrigger;
+    scheduledTime: number; // ms timestamp, utc
+    firedAt: number; // ms timestamp, utc
+    durationMs: number;
+    error?: string; // not set if the task succeeded
+    eventIds: string[];
+}
+
+export interface ITaskExecutionQuery {
+    auditoriumId?: string;
+    failedOnly?: boolean;
+    limit?: number; // the most recent executions are kept
+}
+
+/**
+ * Keeps a durable record of every task the scheduler runs, so that it can be audited later.
+ * Records are appended to a JSON lines file under the data path.
+ */
+export class SchedulerHistory {
+    private readonly path = path.join(config.dataPath, "scheduler_history.jsonl");
+    private lock = new AwaitLock();
+
+    /**
+     * Records a run of a task.
+     * @param execution The record of the run.
+     */
+    public async record(execution: ITaskExecution) {
+        await this.lock.acquireAsync();
+        try {
+            await fs.appendFile(this.path, JSON.stringify(execution) + "\n", "utf-8");
+        } catch (error) {
+            LogService.error("SchedulerHistory", "Failed to record task execution:", error);
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    /**
+     * Gets the recorded runs of tasks, oldest first.
+     * @param query Which runs to get.
+     * @returns The matching runs.
+     */
+    public async getExecutions(query: ITaskExecutionQuery = {}): Promise<ITaskExecution[]> {
+        let str: string;
+        await this.lock.acquireAsync();
+        try {
+            str = await fs.readFile(this.path, "utf-8");
+        } catch (error) {
+            if (error?.code !== "ENOENT") throw error;
+            return [];
+        } finally {
+            this.lock.release();
+        }
+
+        const executions: ITaskExecution[] = [];
+        for (const line of str.split("\n")) {
+            if (!line.trim()) continue;
+            let execution: ITaskExecution;
+            try {
+                execution = JSON.parse(line);
+            } catch {
+                // A partial line may be left behind if the bot died while writing
+                LogService.warn("SchedulerHistory", "Ignoring invalid history line");
+                continue;
+            }
+            if (query.auditoriumId && execution.auditoriumId !== query.auditoriumId) continue;
+            if (query.failedOnly && execution.error === undefined) continue;
+            executions.push(execution);
+        }
+        return query.limit === undefined ? executions : executions.slice(-query.limit);
+    }
+}
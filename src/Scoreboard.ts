@@ -16,11 +16,94 @@ limitations under the License.
 
 import { Conference } from "./Conference";
 import { LogService, MatrixClient, Permalinks, UserID } from "matrix-bot-sdk";
+import { PowerLevelAction } from "matrix-bot-sdk/lib/models/PowerLevelAction";
 import AwaitLock from "await-lock";
 import { promises as fs } from "node:fs";
 import * as path from "node:path";
 import config from "./config";
-import { isEmojiVariant } from "./utils";
+import { isEmojiVariant, writeFileAtomically } from "./utils";
+import { IDbPerson, Role } from "./db/DbPerson";
+import * as htmlEscape from "escape-html";
+
+export const QA_COMMAND = "!qa";
+
+// How many of a thread's existing replies to show when its question joins the scoreboard.
+const THREAD_REPLY_LIMIT = 50;
+
+/**
+ * The ways in which hosts and coordinators can moderate a question on the scoreboard.
+ */
+export enum QAFlag {
+    Pinned = "pinned", // shown at the top
+    Answered = "answered", // shown below the unanswered questions
+    Hidden = "hidden", // shown at the bottom, and dimmed
+}
+
+// Moderators can set a flag by reacting to a question with its emoji, and unset it by redacting
+// the reaction.
+const MODERATION_REACTIONS: { [flag in QAFlag]: string } = {
+    [QAFlag.Pinned]: "📌",
+    [QAFlag.Answered]: "✅",
+    [QAFlag.Hidden]: "🙈",
+};
+
+// The bot acknowledges !qa commands with a reaction which isn't a moderation reaction, so that the
+// acknowledgement can't moderate the command itself in rooms with their own scoreboards.
+const QA_COMMAND_ACK = "👌";
+
+const QA_COMMAND_ACTIONS: { [action: string]: [QAFlag, boolean] } = {
+    pin: [QAFlag.Pinned, true],
+    unpin: [QAFlag.Pinned, false],
+    answer: [QAFlag.Answered, true],
+    unanswer: [QAFlag.Answered, false],
+    hide: [QAFlag.Hidden, true],
+    unhide: [QAFlag.Hidden, false],
+};
+
+// How votes are counted when the conference doesn't configure it: every 👍 adds a vote and every
+// 👎 takes one away, whoever they are from.
+const DEFAULT_VOTING_SETTINGS: IVotingSettings = {
+    votes: { "👍": 1, "👎": -1 },
+    botUsers: [],
+    weights: { bots: 1, selfVotes: 1, lateJoiners: 1 },
+    maxOpenQuestionsPerUser: 0,
+    rollUpReplyVotes: false,
+};
+
+interface IVotingSettings {
+    votes: { [reaction: string]: number };
+    botUsers: string[]; // regular expressions
+    weights: { bots: number, selfVotes: number, lateJoiners: number };
+    maxOpenQuestionsPerUser: number; // 0 for no limit
+    rollUpReplyVotes: boolean; // whether votes on thread replies count towards their question
+}
+
+function getVotingSettings(): IVotingSettings {
+    const settings = config.conference.scoreboard;
+    return {
+        votes: settings?.votes ?? DEFAULT_VOTING_SETTINGS.votes,
+        botUsers: settings?.botUsers ?? DEFAULT_VOTING_SETTINGS.botUsers,
+        weights: { ...DEFAULT_VOTING_SETTINGS.weights, ...settings?.weights },
+        maxOpenQuestionsPerUser: settings?.maxOpenQuestionsPerUser ?? DEFAULT_VOTING_SETTINGS.maxOpenQuestionsPerUser,
+        rollUpReplyVotes: settings?.rollUpReplyVotes ?? DEFAULT_VOTING_SETTINGS.rollUpReplyVotes,
+    };
+}
+
+/**
+ * Gets the reaction which people should use to upvote questions, for announcements to tell them.
+ * @returns The configured reaction with the most weight, or 👍 if none of them add votes.
+ */
+export function getUpvoteReaction(): string {
+    const votes = getVotingSettings().votes;
+    const upvotes = Object.keys(votes).filter(r => votes[r] > 0).sort((a, b) => votes[b] - votes[a]);
+    return upvotes[0] ?? "👍";
+}
+
+export interface RoomVote {
+    senderId?: string; // not known for votes from before the scoreboard format version 2
+    reaction: string;
+    weight: number; // how much the vote adds to the question's score, worked out when it was cast
+}
 
 export interface RoomMessage {
     eventId: string;
@@ -28,25 +111,71 @@ export interface RoomMessage {
     senderId: string;
     senderName?: string;
     senderHttpUrl?: string;
-    activeUpvoteIds: string[];
-    activeDownvoteIds: string[];
+    votes: { [reactionEventId: string]: RoomVote };
+    threadRootId?: string; // set on thread replies, which are follow-ups rather than questions
+    replies?: RoomMessage[]; // the thread replies to a question, in the order they were sent
+    pinned?: boolean;
+    answered?: boolean;
+    hidden?: boolean;
+    moderationReactionIds?: { [reactionEventId: string]: QAFlag };
 }
 
 export interface CachedMessage {
+    eventId: string;
     permalink: string;
     text: string;
-    upvotes: number;
+    upvotes: number; // the effective score: the sum of the weights of the votes
     senderId: string;
     senderName?: string;
     senderAvatarHttpUrl?: string;
+    pinned: boolean;
+    answered: boolean;
+    hidden: boolean;
+    replies: CachedReply[]; // in the order they were sent
 }
 
+export type CachedReply = Omit<CachedMessage, "pinned" | "answered" | "hidden" | "replies">;
+
 interface ScoreboardJson {
     version: number;
-    rooms: RoomScoreboard[];
+    rooms: { [roomId: string]: RoomScoreboard };
+    joins?: { [roomId: string]: { [userId: string]: number } }; // since format version 2
+    enabledRooms?: string[];
+}
+
+interface ScoreboardJsonV1 {
+    version: 1;
+    rooms: {
+        [roomId: string]: Omit<RoomScoreboard, "messages"> & {
+            messages: (Omit<RoomMessage, "votes"> & { activeUpvoteIds: string[], activeDownvoteIds: string[] })[];
+        };
+    };
+}
+
+/**
+ * Converts scoreboards saved before votes had weights. Their votes all count fully.
+ * @param json The scoreboards, in format version 1.
+ * @returns The scoreboards, in the current format.
+ */
+function migrateScoreboardJsonV1(json: ScoreboardJsonV1): ScoreboardJson {
+    const rooms: { [roomId: string]: RoomScoreboard } = {};
+    for (const [roomId, room] of Object.entries(json.rooms)) {
+        rooms[roomId] = {
+            ...room,
+            messages: room.messages.map(({ activeUpvoteIds, activeDownvoteIds, ...message }) => {
+                const votes: { [reactionEventId: string]: RoomVote } = {};
+                for (const id of activeUpvoteIds) votes[id] = { reaction: "👍", weight: 1 };
+                for (const id of activeDownvoteIds) votes[id] = { reaction: "👎", weight: -1 };
+                return { ...message, votes };
+            }),
+        };
+    }
+    return { version: 2, rooms, joins: {} };
 }
 
 export interface RoomScoreboard {
+    talkId?: string; // the talk the questions are for, if known
+    talkStartTime?: number; // ms timestamp, utc, of when the scoreboard was reset for the talk
     /**
      * The start time of the current talk's Q&A session, as a Unix timestamp in milliseconds.
      *
@@ -57,6 +186,7 @@ export interface RoomScoreboard {
 }
 
 export interface CachedScoreboard {
+    talkId?: string; // the talk the questions are for, if known
     /**
      * The start time of the current talk's Q&A session, as a Unix timestamp in milliseconds.
      *
@@ -66,8 +196,43 @@ export interface CachedScoreboard {
     ordered: CachedMessage[];
 }
 
+/**
+ * Gets the questions on a scoreboard along with their thread replies.
+ * @param scoreboard The scoreboard.
+ * @returns The questions and replies.
+ */
+function getAllMessages(scoreboard: RoomScoreboard): RoomMessage[] {
+    const messages: RoomMessage[] = [];
+    for (const message of scoreboard.messages) {
+        messages.push(message, ...(message.replies ?? []));
+    }
+    return messages;
+}
+
+/**
+ * Gets the score of a message: the sum of the weights of its votes.
+ * @param message The message.
+ * @returns The score.
+ */
+function getScore(message: RoomMessage): number {
+    return Object.values(message.votes).reduce((score, v) => score + v.weight, 0);
+}
+
+/**
+ * Gets which group of questions a message is shown in. Groups are shown in order, and each group
+ * is ordered by votes.
+ * @param message The message.
+ * @returns The group.
+ */
+function getDisplayGroup(message: CachedMessage): number {
+    if (message.hidden) return 3;
+    if (message.answered) return 2;
+    if (message.pinned) return 0;
+    return 1;
+}
+
 export class Scoreboard {
-    private static readonly JSON_FORMAT_VERSION = 1;
+    private static readonly JSON_FORMAT_VERSION = 2;
 
     private path: string;
 
@@ -79,8 +244,20 @@ export class Scoreboard {
         [roomId: string]: CachedScoreboard;
     } = {};
 
+    // When each person last joined each auditorium, as ms timestamps, so that votes from people
+    // who joined during a talk can be weighted differently.
+    private joins: {
+        [roomId: string]: { [userId: string]: number };
+    } = {};
+
+    // Rooms which have a scoreboard despite not being auditoriums or interest rooms, such as hybrid
+    // session rooms.
+    private enabledRooms = new Set<string>();
+
+    private userId: string;
     private domain: string;
     private lock = new AwaitLock();
+    private changeListeners: ((roomId: string, scoreboard: CachedScoreboard) => void)[] = [];
 
     constructor(private conference: Conference, private client: MatrixClient) {
         this.path = path.join(config.dataPath, 'scoreboard.json');
@@ -88,15 +265,46 @@ export class Scoreboard {
         // We expect the `MatrixClient` to only start / resume syncing after
         // `load()` has been called.
         this.client.on("room.event", async (roomId: string, event: any) => {
-            if (event['type'] === 'm.reaction') {
-                await this.tryAddReaction(roomId, event);
-            } else if (event['type'] === 'm.room.redaction') {
-                await this.tryRemoveReaction(roomId, event);
-                await this.tryRemoveMessage(roomId, event);
+            try {
+                switch (event['type']) {
+                    case 'm.room.member':
+                        this.trackJoin(roomId, event);
+                        break;
+                    case 'm.reaction':
+                        await this.tryAddReaction(roomId, event);
+                        await this.tryModerateFromReaction(roomId, event);
+                        break;
+                    case 'm.room.redaction':
+                        await this.tryRemoveReaction(roomId, event);
+                        await this.tryRemoveMessage(roomId, event);
+                        break;
+                }
+            } catch (error) {
+                LogService.error("Scoreboard", `Error handling ${event['type']} event ${event['event_id']}:`, error);
+            }
+        });
+        this.client.on("room.message", async (roomId: string, event: any) => {
+            if (event['content']?.['m.relates_to']?.['rel_type'] === 'm.thread') {
+                try {
+                    await this.tryAddThreadReply(roomId, event);
+                } catch (error) {
+                    LogService.error("Scoreboard", `Error handling thread reply ${event['event_id']}:`, error);
+                }
+                return;
+            }
+
+            const body = event['content']?.['body'];
+            if (typeof body !== 'string' || body.split(' ')[0] !== QA_COMMAND) return;
+            try {
+                await this.handleQACommand(roomId, event, body.split(' ').slice(1).filter(a => a.length > 0));
+            } catch (error) {
+                LogService.error("Scoreboard", error);
+                await this.client.replyNotice(roomId, event, `There was an error moderating the Q&A: ${error?.message ?? error}`);
             }
         });
 
         this.client.getUserId().then(uid => {
+            this.userId = uid;
             const parsed = new UserID(uid);
             this.domain = parsed.domain;
         });
@@ -126,6 +334,9 @@ export class Scoreboard {
             return;
         }
 
+        if (json.version === 1) {
+            json = migrateScoreboardJsonV1(json as unknown as ScoreboardJsonV1);
+        }
         if (json.version !== Scoreboard.JSON_FORMAT_VERSION) {
             LogService.warn("Scoreboard", `Cannot load scoreboard version ${json.version}`);
             return;
@@ -133,6 +344,8 @@ export class Scoreboard {
 
         await this.lock.acquireAsync();
         try {
+            this.joins = json.joins ?? {};
+            this.enabledRooms = new Set(json.enabledRooms ?? []);
             for (const roomId in json.rooms) {
                 // Replace the scoreboard for each room with the saved scoreboard.
                 // It's assumed that the bot hasn't started processing messages yet.
@@ -152,30 +365,91 @@ export class Scoreboard {
     public async save() {
         await this.lock.acquireAsync();
         try {
-            const json = {
+            const json: ScoreboardJson = {
                 version: Scoreboard.JSON_FORMAT_VERSION,
                 rooms: this.byRoom,
+                joins: this.joins,
+                enabledRooms: [...this.enabledRooms],
             };
 
-            // Write to a temporary file, then replace the previous data atomically.
-            // This ensures that the saved data remains valid even if the bot dies while writing
-            // new data.
-            const tempFilePath = this.path + '.tmp';
-            await fs.writeFile(tempFilePath, JSON.stringify(json));
-            await fs.rename(tempFilePath, this.path);
+            await writeFileAtomically(this.path, JSON.stringify(json));
         } finally {
             this.lock.release();
         }
     }
 
+    /**
+     * Registers a function to be called whenever a room's scoreboard changes, including when the
+     * Q&A countdown starts.
+     * @param listener The function to call, with the scoreboard's room ID and new scoreboard.
+     */
+    public onScoreboardChanged(listener: (roomId: string, scoreboard: CachedScoreboard) => void) {
+        this.changeListeners.push(listener);
+    }
+
+    /**
+     * Determines whether a room has a scoreboard. Auditoriums and interest rooms always have one,
+     * and other rooms have one once it has been enabled for them.
+     * @param roomId The room ID.
+     * @returns Whether the room has a scoreboard.
+     */
+    public hasScoreboard(roomId: string): boolean {
+        return this.enabledRooms.has(roomId) ||
+            this.conference.storedAuditoriums.some(a => a.roomId === roomId) ||
+            this.conference.storedInterestRooms.some(i => i.roomId === roomId);
+    }
+
+    /**
+     * Gives a room a scoreboard, if it doesn't already have one.
+     * @param roomId The room ID.
+     */
+    public async enableScoreboard(roomId: string) {
+        if (this.hasScoreboard(roomId)) return;
+
+        await this.lock.acquireAsync();
+        try {
+            this.enabledRooms.add(roomId);
+            this.byRoom[roomId] = {
+                qaStartTime: undefined,
+                messages: [],
+            };
+            await this.calculateRoom(roomId);
+        } finally {
+            this.lock.release();
+        }
+
+        await this.save();
+    }
+
     public getScoreboard(roomId: string): CachedScoreboard {
         return this.byRoomCached[roomId];
     }
 
-    public async resetScoreboard(roomId: string) {
+    /**
+     * Counts the questions and votes on each scoreboard, for metrics.
+     * @returns The number of questions, and of votes on questions and their follow-ups, by the
+     * scoreboard's room ID.
+     */
+    public getStats(): { [roomId: string]: { questions: number, votes: number } } {
+        const stats: { [roomId: string]: { questions: number, votes: number } } = {};
+        for (const [roomId, scoreboard] of Object.entries(this.byRoom)) {
+            const votes = getAllMessages(scoreboard).reduce((count, m) => count + Object.keys(m.votes).length, 0);
+            stats[roomId] = { questions: scoreboard.messages.length, votes };
+        }
+        return stats;
+    }
+
+    /**
+     * Clears the scoreboard for a new talk.
+     * @param roomId The scoreboard's room ID.
+     * @param talkId The ID of the talk which is starting, if any.
+     */
+    public async resetScoreboard(roomId: string, talkId?: string) {
         await this.lock.acquireAsync();
         try {
             this.byRoom[roomId] = {
+                talkId: talkId,
+                talkStartTime: Date.now(),
                 qaStartTime: undefined,
                 messages: [],
             };
@@ -189,7 +463,7 @@ export class Scoreboard {
 
     /**
      * Shows the countdown or in-progress indicator for a Q&A session.
-     * @param roomId The auditorium's room ID.
+     * @param roomId The scoreboard's room ID.
      * @param qaStartTime The start time of the Q&A session, as a Unix timestamp in milliseconds.
      */
     public async showQACountdown(roomId: string, qaStartTime: number) {
@@ -212,43 +486,91 @@ export class Scoreboard {
         await this.save();
     }
 
+    /**
+     * Moves the countdown for a Q&A session which has been rescheduled. Nothing happens if the
+     * countdown is not showing for that Q&A session.
+     * @param roomId The scoreboard's room ID.
+     * @param previousQaStartTime The previous start time of the Q&A session, as a Unix timestamp
+     * in milliseconds.
+     * @param qaStartTime The new start time of the Q&A session, as a Unix timestamp in milliseconds.
+     */
+    public async moveQACountdown(roomId: string, previousQaStartTime: number, qaStartTime: number) {
+        await this.lock.acquireAsync();
+        try {
+            if (this.byRoom[roomId]?.qaStartTime !== previousQaStartTime) return;
+
+            this.byRoom[roomId].qaStartTime = qaStartTime;
+
+            await this.calculateRoom(roomId);
+        } finally {
+            this.lock.release();
+        }
+
+        await this.save();
+    }
+
     private async calculateRoom(roomId: string) {
         LogService.info("Scoreboard", `Recalculating scoreboard for ${roomId}`);
         const scoreboard = this.byRoom[roomId];
         const messages: CachedMessage[] = [];
+        const settings = getVotingSettings();
         for (const message of scoreboard.messages) {
+            const replies = (message.replies ?? []).map(r => this.calculateReply(roomId, r));
+            let score = getScore(message);
+            if (settings.rollUpReplyVotes) {
+                score += (message.replies ?? []).reduce((total, r) => total + getScore(r), 0);
+            }
             const m: CachedMessage = {
-                permalink: Permalinks.forEvent(roomId, message.eventId, [this.domain]),
-                senderAvatarHttpUrl: message.senderHttpUrl,
-                senderName: message.senderName,
-                senderId: message.senderId,
-                text: message.text,
-                upvotes: message.activeUpvoteIds.length - message.activeDownvoteIds.length,
+                ...this.calculateReply(roomId, message),
+                upvotes: Math.round(score * 100) / 100,
+                pinned: !!message.pinned,
+                answered: !!message.answered,
+                hidden: !!message.hidden,
+                replies: replies,
             };
             messages.push(m);
         }
         messages.sort((a, b) => {
-            return b.upvotes - a.upvotes;
+            return getDisplayGroup(a) - getDisplayGroup(b) || b.upvotes - a.upvotes;
         });
         this.byRoomCached[roomId] = {
+            talkId: scoreboard.talkId,
             qaStartTime: scoreboard.qaStartTime,
             ordered: messages,
         };
+        for (const listener of this.changeListeners) {
+            try {
+                listener(roomId, this.byRoomCached[roomId]);
+            } catch (error) {
+                LogService.error("Scoreboard", "Error notifying of scoreboard change:", error);
+            }
+        }
+    }
+
+    private calculateReply(roomId: string, message: RoomMessage): CachedReply {
+        return {
+            eventId: message.eventId,
+            permalink: Permalinks.forEvent(roomId, message.eventId, [this.domain]),
+            senderAvatarHttpUrl: message.senderHttpUrl,
+            senderName: message.senderName,
+            senderId: message.senderId,
+            text: message.text,
+            upvotes: Math.round(getScore(message) * 100) / 100,
+        };
     }
 
     private async tryAddReaction(roomId: string, event: any) {
-        const isAuditorium = this.conference.storedAuditoriums.some(a => a.roomId === roomId);
-        if (!isAuditorium) return; // irrelevant
+        if (!this.hasScoreboard(roomId)) return; // irrelevant
 
         const relation = event['content']?.['m.relates_to'];
         if (!relation) return;
 
         if (relation['rel_type'] !== 'm.annotation') return;
 
-        const isUpvote = isEmojiVariant('👍', relation['key']);
-        const isDownvote = isEmojiVariant('👎', relation['key']);
-
-        if (!isUpvote && !isDownvote) return;
+        if (typeof (relation['key']) !== 'string') return;
+        const settings = getVotingSettings();
+        const reaction = Object.keys(settings.votes).find(r => isEmojiVariant(r, relation['key']));
+        if (!reaction) return;
         if (typeof (relation['event_id']) !== 'string') return;
 
         await this.lock.acquireAsync();
@@ -262,50 +584,328 @@ export class Scoreboard {
                 };
                 scoreboard = this.byRoom[roomId];
             }
-            const message = scoreboard.messages.find(m => m.eventId === relation['event_id']);
-            if (message) {
-                (isUpvote ? message.activeUpvoteIds : message.activeDownvoteIds).push(event['event_id']);
-            } else {
+            let message = getAllMessages(scoreboard).find(m => m.eventId === relation['event_id']);
+            if (!message) {
                 // We don't know about it. Check the message
-                const targetEv = await this.client.getEvent(roomId, relation['event_id']);
-                if (targetEv?.['type'] !== 'm.room.message') return;
-                if (targetEv?.['content']?.['msgtype'] !== "m.text") return;
-                if (typeof (targetEv?.['content']?.['body']) !== 'string') return;
-
-                const message: RoomMessage = {
-                    activeUpvoteIds: [],
-                    activeDownvoteIds: [],
-                    eventId: relation['event_id'],
-                    senderId: targetEv['sender'],
-                    text: targetEv['content']['body'],
-                };
-                (isUpvote ? message.activeUpvoteIds : message.activeDownvoteIds).push(event['event_id']);
-
-                try {
-                    const profile = await this.client.getUserProfile(message.senderId);
-                    if (profile['displayname']) message.senderName = profile['displayname'];
-                    if (profile['avatar_url'] && profile['avatar_url'].startsWith('mxc://')) {
-                        const parts = profile['avatar_url'].slice('mxc://'.length).split('/');
-                        message.senderHttpUrl = `${this.client.homeserverUrl}/_matrix/media/r0/thumbnail/${encodeURIComponent(parts[0])}/${encodeURIComponent(parts[1])}?method=crop&width=64&height=64`;
+                message = await this.fetchMessage(roomId, relation['event_id']);
+                if (!message) return;
+                if (this.getVoteWeight(roomId, message, event['sender'], reaction, settings) === 0) return;
+
+                // Votes on thread replies bring their question onto the scoreboard
+                const question = message.threadRootId
+                    ? scoreboard.messages.find(m => m.eventId === message.threadRootId) ?? await this.fetchMessage(roomId, message.threadRootId)
+                    : message;
+                if (!question || question.threadRootId) return;
+                if (!scoreboard.messages.includes(question)) {
+                    const openQuestions = scoreboard.messages.filter(m => m.senderId === question.senderId && !m.answered && !m.hidden);
+                    if (settings.maxOpenQuestionsPerUser > 0 && openQuestions.length >= settings.maxOpenQuestionsPerUser) {
+                        LogService.info("Scoreboard", `Not adding ${question.eventId} to the scoreboard: ${question.senderId} already has ${openQuestions.length} open questions`);
+                        return;
+                    }
+                    await this.fetchThreadReplies(roomId, question);
+                    scoreboard.messages.push(question);
+                }
+                if (question !== message) {
+                    const eventId = message.eventId;
+                    question.replies = question.replies ?? [];
+                    const knownReply = question.replies.find(r => r.eventId === eventId);
+                    if (knownReply) {
+                        message = knownReply;
+                    } else {
+                        question.replies.push(message);
                     }
-                } catch {
-                    // ignore
                 }
+            }
+            message.votes[event['event_id']] = {
+                senderId: event['sender'],
+                reaction: reaction,
+                weight: this.getVoteWeight(roomId, message, event['sender'], reaction, settings),
+            };
 
+            await this.calculateRoom(roomId);
+        } finally {
+            this.lock.release();
+        }
+
+        await this.save();
+    }
+
+    /**
+     * Works out how much a vote counts towards a question's score. Votes may count for less, or not
+     * at all, if they're from a bot, from the person who asked the question, or from someone who
+     * joined the auditorium after the talk started.
+     * @param roomId The scoreboard's room ID.
+     * @param message The question.
+     * @param senderId The person voting.
+     * @param reaction The reaction they voted with, as configured.
+     * @param settings How votes are counted.
+     * @returns The weight of the vote.
+     */
+    private getVoteWeight(roomId: string, message: RoomMessage, senderId: string, reaction: string, settings: IVotingSettings): number {
+        let weight = settings.votes[reaction];
+        if (senderId === this.userId || settings.botUsers.some(p => new RegExp(p).test(senderId))) {
+            weight *= settings.weights.bots;
+        }
+        if (senderId === message.senderId) {
+            weight *= settings.weights.selfVotes;
+        }
+        const talkStartTime = this.byRoom[roomId]?.talkStartTime;
+        const joinedAt = this.joins[roomId]?.[senderId];
+        if (talkStartTime !== undefined && joinedAt !== undefined && joinedAt > talkStartTime) {
+            weight *= settings.weights.lateJoiners;
+        }
+        return weight;
+    }
+
+    /**
+     * Records when someone joined an auditorium. Changes to their profile are not joins.
+     * @param roomId The room.
+     * @param event The membership event.
+     */
+    private trackJoin(roomId: string, event: any) {
+        if (!this.hasScoreboard(roomId)) return; // irrelevant
+
+        if (event['content']?.['membership'] !== 'join') return;
+        if (event['unsigned']?.['prev_content']?.['membership'] === 'join') return;
+        if (typeof (event['state_key']) !== 'string' || typeof (event['origin_server_ts']) !== 'number') return;
+
+        this.joins[roomId] = { ...this.joins[roomId], [event['state_key']]: event['origin_server_ts'] };
+    }
+
+    /**
+     * Fetches a message which isn't on the scoreboard yet. Only text messages can go on the
+     * scoreboard.
+     * @param roomId The scoreboard's room ID.
+     * @param eventId The event ID of the message.
+     * @returns The message, with no votes, if it can go on the scoreboard; `undefined` otherwise.
+     */
+    private async fetchMessage(roomId: string, eventId: string): Promise<RoomMessage | undefined> {
+        const targetEv = await this.client.getEvent(roomId, eventId);
+        return await this.toRoomMessage(targetEv);
+    }
+
+    /**
+     * Fetches the replies which have already been sent in a question's thread, so that they're
+     * shown once the question is on the scoreboard.
+     * @param roomId The scoreboard's room ID.
+     * @param question The question, which will have its replies replaced.
+     */
+    private async fetchThreadReplies(roomId: string, question: RoomMessage) {
+        question.replies = [];
+        try {
+            const path = `/_matrix/client/v1/rooms/${encodeURIComponent(roomId)}/relations/${encodeURIComponent(question.eventId)}/m.thread`;
+            const response = await this.client.doRequest("GET", path, { limit: THREAD_REPLY_LIMIT });
+            // The newest replies come first
+            for (const event of [...(response?.['chunk'] ?? [])].reverse()) {
+                const reply = await this.toRoomMessage(event);
+                if (reply) question.replies.push(reply);
+            }
+        } catch (error) {
+            LogService.warn("Scoreboard", `Cannot fetch the thread replies to ${question.eventId}:`, error?.message ?? error);
+        }
+    }
+
+    /**
+     * Adds a new thread reply to its question, if the question is on the scoreboard.
+     * @param roomId The room the reply was sent in.
+     * @param event The reply.
+     */
+    private async tryAddThreadReply(roomId: string, event: any) {
+        if (!this.hasScoreboard(roomId)) return; // irrelevant
+
+        await this.lock.acquireAsync();
+        try {
+            const question = this.byRoom[roomId]?.messages.find(m => m.eventId === event['content']['m.relates_to']['event_id']);
+            if (!question || question.replies?.some(r => r.eventId === event['event_id'])) return;
+
+            const reply = await this.toRoomMessage(event);
+            if (!reply) return;
+            question.replies = [...(question.replies ?? []), reply];
+
+            await this.calculateRoom(roomId);
+        } finally {
+            this.lock.release();
+        }
+
+        await this.save();
+    }
+
+    /**
+     * Converts an event into a message for the scoreboard. Only text messages can go on the
+     * scoreboard.
+     * @param event The event.
+     * @returns The message, with no votes, if it can go on the scoreboard; `undefined` otherwise.
+     */
+    private async toRoomMessage(event: any): Promise<RoomMessage | undefined> {
+        if (event?.['type'] !== 'm.room.message') return undefined;
+        if (event?.['content']?.['msgtype'] !== "m.text") return undefined;
+        if (typeof (event?.['content']?.['body']) !== 'string') return undefined;
+
+        const message: RoomMessage = {
+            votes: {},
+            eventId: event['event_id'],
+            senderId: event['sender'],
+            text: event['content']['body'],
+        };
+        const relation = event['content']['m.relates_to'];
+        if (relation?.['rel_type'] === 'm.thread' && typeof (relation['event_id']) === 'string') {
+            message.threadRootId = relation['event_id'];
+        }
+
+        try {
+            const profile = await this.client.getUserProfile(message.senderId);
+            if (profile['displayname']) message.senderName = profile['displayname'];
+            if (profile['avatar_url'] && profile['avatar_url'].startsWith('mxc://')) {
+                const parts = profile['avatar_url'].slice('mxc://'.length).split('/');
+                message.senderHttpUrl = `${this.client.homeserverUrl}/_matrix/media/r0/thumbnail/${encodeURIComponent(parts[0])}/${encodeURIComponent(parts[1])}?method=crop&width=64&height=64`;
+            }
+        } catch {
+            // ignore
+        }
+
+        return message;
+    }
+
+    /**
+     * Sets or unsets a moderation flag on a question.
+     * @param roomId The scoreboard's room ID.
+     * @param eventId The event ID of the question.
+     * @param flag The flag.
+     * @param value Whether the flag should be set.
+     * @param reactionEventId The reaction which set the flag, if any. Redacting it unsets the flag.
+     * @returns Whether the question could be found.
+     */
+    public async setFlag(roomId: string, eventId: string, flag: QAFlag, value: boolean, reactionEventId?: string): Promise<boolean> {
+        await this.lock.acquireAsync();
+        try {
+            if (!(roomId in this.byRoom)) {
+                this.byRoom[roomId] = {
+                    qaStartTime: undefined,
+                    messages: [],
+                };
+            }
+            const scoreboard = this.byRoom[roomId];
+
+            let message = scoreboard.messages.find(m => m.eventId === eventId);
+            if (!message) {
+                // Moderators may pin questions which nobody has voted on yet
+                if (!value) return true;
+                message = await this.fetchMessage(roomId, eventId);
+                if (!message || message.threadRootId) return false;
+                await this.fetchThreadReplies(roomId, message);
                 scoreboard.messages.push(message);
             }
 
+            message[flag] = value;
+            if (reactionEventId) {
+                message.moderationReactionIds = { ...message.moderationReactionIds, [reactionEventId]: flag };
+            }
+
             await this.calculateRoom(roomId);
         } finally {
             this.lock.release();
         }
 
         await this.save();
+        return true;
+    }
+
+    private async tryModerateFromReaction(roomId: string, event: any) {
+        if (!this.hasScoreboard(roomId)) return; // irrelevant
+
+        const relation = event['content']?.['m.relates_to'];
+        if (relation?.['rel_type'] !== 'm.annotation') return;
+        if (typeof (relation['event_id']) !== 'string' || typeof (relation['key']) !== 'string') return;
+
+        const flag = Object.values(QAFlag).find(f => isEmojiVariant(MODERATION_REACTIONS[f], relation['key']));
+        if (!flag) return;
+        if (event['sender'] === this.userId) return; // our own reactions never moderate
+        if (!await this.isModerator(event['sender'], roomId, roomId)) return;
+
+        await this.setFlag(roomId, relation['event_id'], flag, true, event['event_id']);
+    }
+
+    /**
+     * Determines whether someone may moderate a scoreboard's Q&A. They must be able to redact
+     * messages in the room they are moderating from. For auditoriums and interest rooms, they
+     * must also be one of its hosts or coordinators.
+     * @param userId The user.
+     * @param scoreboardRoomId The scoreboard's room ID.
+     * @param roomId The room the user is moderating from.
+     * @returns Whether the user may moderate the Q&A.
+     */
+    private async isModerator(userId: string, scoreboardRoomId: string, roomId: string): Promise<boolean> {
+        let people: IDbPerson[] | undefined;
+        const auditorium = this.conference.storedAuditoriums.find(a => a.roomId === scoreboardRoomId);
+        const interestRoom = this.conference.storedInterestRooms.find(i => i.roomId === scoreboardRoomId);
+        if (auditorium) {
+            people = await this.conference.getPeopleForAuditorium(auditorium);
+        } else if (interestRoom) {
+            people = await this.conference.getPeopleForInterest(interestRoom);
+        }
+        if (people) {
+            const isHostOrCoordinator = people.some(p => p.matrix_id === userId && (p.event_role === Role.Host || p.event_role === Role.Coordinator));
+            if (!isHostOrCoordinator) return false;
+        }
+        return await this.client.userHasPowerLevelForAction(userId, roomId, PowerLevelAction.RedactEvents);
+    }
+
+    /**
+     * Handles a !qa command, which moderates a scoreboard's Q&A. In a talk room, it moderates the
+     * talk's auditorium's Q&A. In other rooms with a scoreboard, apart from auditoriums, it
+     * moderates the room's own Q&A.
+     * @param roomId The room the command was sent in.
+     * @param event The command.
+     * @param args The arguments to the command.
+     */
+    private async handleQACommand(roomId: string, event: any, args: string[]) {
+        let scoreboardRoomId: string | undefined;
+        const talk = this.conference.storedTalks.find(t => t.roomId === roomId);
+        if (talk) {
+            scoreboardRoomId = this.conference.getAuditorium(await talk.getAuditoriumId())?.roomId;
+        } else if (this.hasScoreboard(roomId) && !this.conference.storedAuditoriums.some(a => a.roomId === roomId)) {
+            scoreboardRoomId = roomId;
+        }
+        if (!scoreboardRoomId) return; // irrelevant
+
+        if (!await this.isModerator(event['sender'], scoreboardRoomId, roomId)) {
+            await this.client.replyNotice(roomId, event, "Only hosts and coordinators can moderate the Q&A.");
+            return;
+        }
+
+        const ordered = this.getScoreboard(scoreboardRoomId)?.ordered ?? [];
+        if (args.length === 0 || args[0] === "list") {
+            if (ordered.length === 0) {
+                await this.client.replyNotice(roomId, event, "There are no questions on the scoreboard yet.");
+                return;
+            }
+            let html = "Questions on the scoreboard:<ol>";
+            for (const message of ordered) {
+                const flags = Object.values(QAFlag).filter(f => message[f]);
+                html += `<li>${flags.length > 0 ? `<b>[${flags.join(", ")}]</b> ` : ""}` +
+                    `${message.upvotes} votes - ${htmlEscape(message.senderName ?? message.senderId)}: ${htmlEscape(message.text)} (<code>${htmlEscape(message.eventId)}</code>)</li>`;
+            }
+            html += "</ol>";
+            await this.client.replyHtmlNotice(roomId, event, html);
+            return;
+        }
+
+        const action = QA_COMMAND_ACTIONS[args[0]];
+        if (!action || !args[1]) {
+            await this.client.replyNotice(roomId, event, "Usage: !qa [list], or !qa pin|unpin|answer|unanswer|hide|unhide <number or event ID>");
+            return;
+        }
+        const eventId = /^\d+$/.test(args[1]) ? ordered[Number(args[1]) - 1]?.eventId : args[1];
+        const [flag, value] = action;
+        if (!eventId || !await this.setFlag(scoreboardRoomId, eventId, flag, value)) {
+            await this.client.replyNotice(roomId, event, `Unknown question: ${args[1]}`);
+            return;
+        }
+        await this.client.unstableApis.addReactionToEvent(roomId, event['event_id'], QA_COMMAND_ACK);
     }
 
     private async tryRemoveReaction(roomId: string, event: any) {
-        const isAuditorium = this.conference.storedAuditoriums.some(a => a.roomId === roomId);
-        if (!isAuditorium) return; // irrelevant
+        if (!this.hasScoreboard(roomId)) return; // irrelevant
 
         if (!event['redacts']) return;
 
@@ -314,17 +914,16 @@ export class Scoreboard {
             const scoreboard = this.byRoom[roomId];
             if (!scoreboard) return;
 
-            const upvoteMessage = scoreboard.messages.find(m => m.activeUpvoteIds.includes(event['redacts']));
-            const downvoteMessage = scoreboard.messages.find(m => m.activeDownvoteIds.includes(event['redacts']));
-            if (!upvoteMessage && !downvoteMessage) return;
+            const votedMessage = getAllMessages(scoreboard).find(m => m.votes[event['redacts']]);
+            const moderatedMessage = scoreboard.messages.find(m => m.moderationReactionIds?.[event['redacts']]);
+            if (!votedMessage && !moderatedMessage) return;
 
-            if (upvoteMessage) {
-                const idx = upvoteMessage.activeUpvoteIds.indexOf(event['redacts']);
-                if (idx >= 0) upvoteMessage.activeUpvoteIds.splice(idx, 1);
+            if (votedMessage) {
+                delete votedMessage.votes[event['redacts']];
             }
-            if (downvoteMessage) {
-                const idx = downvoteMessage.activeDownvoteIds.indexOf(event['redacts']);
-                if (idx >= 0) downvoteMessage.activeDownvoteIds.splice(idx, 1);
+            if (moderatedMessage) {
+                moderatedMessage[moderatedMessage.moderationReactionIds[event['redacts']]] = false;
+                delete moderatedMessage.moderationReactionIds[event['redacts']];
             }
 
             await this.calculateRoom(roomId);
@@ -336,8 +935,7 @@ export class Scoreboard {
     }
 
     private async tryRemoveMessage(roomId: string, event: any) {
-        const isAuditorium = this.conference.storedAuditoriums.some(a => a.roomId === roomId);
-        if (!isAuditorium) return; // irrelevant
+        if (!this.hasScoreboard(roomId)) return; // irrelevant
 
         if (!event['redacts']) return;
 
@@ -346,11 +944,14 @@ export class Scoreboard {
             const scoreboard = this.byRoom[roomId];
             if (!scoreboard) return;
 
-            const toRemove = scoreboard.messages.find(m => m.eventId === event['redacts']);
+            const toRemove = getAllMessages(scoreboard).find(m => m.eventId === event['redacts']);
             if (!toRemove) return;
 
-            const idx = scoreboard.messages.indexOf(toRemove);
-            if (idx >= 0) scoreboard.messages.splice(idx, 1);
+            const siblings = toRemove.threadRootId
+                ? scoreboard.messages.find(m => m.eventId === toRemove.threadRootId)?.replies ?? []
+                : scoreboard.messages;
+            const idx = siblings.indexOf(toRemove);
+            if (idx >= 0) siblings.splice(idx, 1);
 
             await this.calculateRoom(roomId);
         } finally {
@@ -0,0 +1,95 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Request, Response } from "express";
+import { LogService } from "matrix-bot-sdk";
+import { CachedScoreboard, Scoreboard } from "./Scoreboard";
+import { authorizeRoom } from "./widgetAuth";
+
+// How often to send a comment down idle streams, so that proxies don't close them.
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+function formatEvent(scoreboard: CachedScoreboard): string {
+    return `data: ${JSON.stringify(scoreboard || { qaStartTime: undefined, ordered: [] })}\n\n`;
+}
+
+/**
+ * Pushes scoreboard updates to widgets as Server-Sent Events. Each update is serialized once and
+ * then written to every widget watching the room, rather than once per widget.
+ */
+export class ScoreboardStream {
+    private byRoom: { [roomId: string]: Set<Response> } = {};
+
+    constructor(private scoreboard: Scoreboard) {
+        this.scoreboard.onScoreboardChanged((roomId, sb) => this.broadcast(roomId, sb));
+        setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS);
+    }
+
+    /**
+     * Handles a request for a room's scoreboard stream. The current scoreboard is sent straight
+     * away, followed by every change to it until the widget disconnects.
+     * @param req The request.
+     * @param res The response.
+     */
+    public async subscribe(req: Request, res: Response) {
+        const roomId = req.params['roomId'];
+        if (!roomId) return res.sendStatus(400);
+
+        if (!this.scoreboard.hasScoreboard(roomId)) return res.sendStatus(404);
+        if (!await authorizeRoom(req, res, roomId)) return;
+
+        res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no", // stop nginx from buffering the stream
+        });
+        res.write(formatEvent(this.scoreboard.getScoreboard(roomId)));
+
+        if (!this.byRoom[roomId]) this.byRoom[roomId] = new Set();
+        this.byRoom[roomId].add(res);
+        req.on('close', () => {
+            this.byRoom[roomId]?.delete(res);
+            if (this.byRoom[roomId]?.size === 0) delete this.byRoom[roomId];
+        });
+    }
+
+    private broadcast(roomId: string, scoreboard: CachedScoreboard) {
+        const clients = this.byRoom[roomId];
+        if (!clients) return;
+
+        const data = formatEvent(scoreboard);
+        for (const res of clients) {
+            try {
+                res.write(data);
+            } catch (error) {
+                LogService.warn("ScoreboardStream", "Error sending scoreboard update:", error);
+            }
+        }
+    }
+
+    private heartbeat() {
+        for (const clients of Object.values(this.byRoom)) {
+            for (const res of clients) {
+                try {
+                    res.write(": heartbeat\n\n");
+                } catch (error) {
+                    LogService.warn("ScoreboardStream", "Error sending heartbeat:", error);
+                }
+            }
+        }
+    }
+}
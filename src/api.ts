@@ -0,0 +1,296 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as express from "express";
+import { NextFunction, Request, Response } from "express";
+import { LogService } from "matrix-bot-sdk";
+import config from "./config";
+import { Talk } from "./models/Talk";
+import { Auditorium } from "./models/Auditorium";
+import { InterestRoom } from "./models/InterestRoom";
+import { RoomKind } from "./models/room_kinds";
+import { IDbTalk } from "./db/DbTalk";
+import { CachedMessage } from "./Scoreboard";
+
+// How long responses are cached for, by the bot and by clients, when not configured.
+const DEFAULT_CACHE_SECONDS = 60;
+
+// How far ahead to look for the next talk in each auditorium.
+const NOW_NEXT_WINDOW_MINUTES = 24 * 60;
+
+export interface IApiAuditorium {
+    id: string;
+    name: string;
+    kind: RoomKind;
+    roomId: string;
+    alias?: string;
+}
+
+export interface IApiSpeaker {
+    name: string;
+}
+
+export interface IApiTalk {
+    id: string;
+    title: string;
+    subtitle: string;
+    track: string;
+    auditoriumId: string;
+    roomId: string;
+    alias?: string;
+    startTime: number; // ms timestamp, utc, as scheduled when the talk room was built
+    endTime: number; // ms timestamp, utc, as scheduled when the talk room was built
+    cancelled: boolean;
+    speakers: IApiSpeaker[];
+    live?: { // the current schedule, including any delays
+        startTime: number; // ms timestamp, utc
+        qaStartTime: number; // ms timestamp, utc
+        endTime: number; // ms timestamp, utc
+    };
+}
+
+export interface IApiInterestRoom {
+    id: string;
+    name: string;
+    roomId: string;
+    alias?: string;
+}
+
+export interface IApiNowNext {
+    auditoriumId: string;
+    now?: IApiTalk; // not set if nothing is on
+    next?: IApiTalk; // not set if nothing is on in the next day
+}
+
+export interface IApiQA {
+    auditoriumId: string;
+    talkId?: string;
+    qaStartTime?: number; // ms timestamp, utc
+    questions: CachedMessage[]; // without hidden questions
+}
+
+const cache: {
+    [key: string]: {
+        value: Promise<unknown>,
+        cachedAt: number, // ms
+    },
+} = {};
+
+function getCacheSeconds(): number {
+    return config.webserver.api?.cacheSeconds ?? DEFAULT_CACHE_SECONDS;
+}
+
+/**
+ * Gets a value, with a cache. Failures are not cached.
+ * @param key The key to cache the value under.
+ * @param fn The function which gets the value.
+ * @returns The value.
+ */
+function cached<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    if (!(key in cache) || now - cache[key].cachedAt > getCacheSeconds() * 1000) {
+        const entry = {
+            value: fn().catch(error => {
+                if (cache[key] === entry) delete cache[key];
+                throw error;
+            }),
+            cachedAt: now,
+        };
+        cache[key] = entry;
+    }
+    return cache[key].value as Promise<T>;
+}
+
+/**
+ * Sets the CORS headers for requests from the configured origins, and answers preflight requests.
+ * @param req The request.
+ * @param res The response.
+ * @param next The next handler.
+ */
+function applyCors(req: Request, res: Response, next: NextFunction) {
+    const origins = config.webserver.api?.corsOrigins ?? [];
+    const origin = req.header("Origin");
+    if (origin && (origins.includes("*") || origins.includes(origin))) {
+        res.set("Access-Control-Allow-Origin", origins.includes("*") ? "*" : origin);
+        res.set("Access-Control-Allow-Methods", "GET, OPTIONS");
+        res.vary("Origin");
+    }
+    if (req.method === "OPTIONS") return res.sendStatus(204);
+    next();
+}
+
+/**
+ * Wraps a function which gets the body of an API response.
+ * @param fn The function, which returns `undefined` if what was asked for doesn't exist.
+ * @param options Whether clients must not cache the response.
+ * @returns The request handler.
+ */
+function handle(fn: (req: Request) => Promise<unknown | undefined>, options: { noCache?: boolean } = {}) {
+    return async (req: Request, res: Response) => {
+        try {
+            const body = await fn(req);
+            if (body === undefined) return res.sendStatus(404);
+            res.set("Cache-Control", options.noCache ? "no-cache" : `public, max-age=${getCacheSeconds()}`);
+            return res.send(body);
+        } catch (error) {
+            LogService.error("api", `Error handling ${req.path}:`, error);
+            return res.sendStatus(500);
+        }
+    };
+}
+
+async function describeAuditorium(auditorium: Auditorium): Promise<IApiAuditorium> {
+    const definition = await auditorium.getDefinition();
+    return {
+        id: definition.id,
+        name: definition.name,
+        kind: definition.kind,
+        roomId: auditorium.roomId,
+        alias: await auditorium.getCanonicalAlias(),
+    };
+}
+
+async function describeInterestRoom(interestRoom: InterestRoom): Promise<IApiInterestRoom> {
+    return {
+        id: await interestRoom.getId(),
+        name: await interestRoom.getName(),
+        roomId: interestRoom.roomId,
+        alias: await interestRoom.getCanonicalAlias(),
+    };
+}
+
+async function describeTalk(talk: Talk, dbTalk?: IDbTalk): Promise<IApiTalk> {
+    const definition = await talk.getDefinition();
+    const speakers = await talk.getSpeakers();
+    return {
+        id: definition.id,
+        title: definition.title,
+        subtitle: definition.subtitle,
+        track: definition.track,
+        auditoriumId: await talk.getAuditoriumId(),
+        roomId: talk.roomId,
+        alias: await talk.getCanonicalAlias(),
+        startTime: definition.startTime,
+        endTime: definition.endTime,
+        cancelled: !!definition.cancelled,
+        speakers: speakers.map(s => ({ name: s.name })),
+        live: dbTalk ? {
+            startTime: dbTalk.start_datetime,
+            qaStartTime: dbTalk.qa_start_datetime,
+            endTime: dbTalk.end_datetime,
+        } : undefined,
+    };
+}
+
+function getAuditoriums(): Promise<IApiAuditorium[]> {
+    return cached("auditoriums", () => Promise.all(config.RUNTIME.conference.storedAuditoriums.map(a => describeAuditorium(a))));
+}
+
+function getTalks(): Promise<IApiTalk[]> {
+    return cached("talks", async () => {
+        const talks = await Promise.all(config.RUNTIME.conference.storedTalks.map(t => describeTalk(t)));
+        return talks.sort((a, b) => a.startTime - b.startTime);
+    });
+}
+
+function getInterestRooms(): Promise<IApiInterestRoom[]> {
+    return cached("interestRooms", () => Promise.all(config.RUNTIME.conference.storedInterestRooms.map(i => describeInterestRoom(i))));
+}
+
+/**
+ * Gets the talk which is on now and the talk which is on next in each auditorium, by the current
+ * schedule.
+ * @returns The talks on now and next, by auditorium ID.
+ */
+function getNowNext(): Promise<{ [auditoriumId: string]: IApiNowNext }> {
+    return cached("nowNext", async () => {
+        const db = await config.RUNTIME.conference.getBackendDb();
+        const dbTalks = await db.getUpcomingTalkEnds(NOW_NEXT_WINDOW_MINUTES, 0);
+        dbTalks.sort((a, b) => a.start_datetime - b.start_datetime);
+
+        const now = Date.now();
+        const nowNext: { [auditoriumId: string]: IApiNowNext } = {};
+        for (const auditorium of config.RUNTIME.conference.storedAuditoriums) {
+            const auditoriumId = await auditorium.getId();
+            const auditoriumTalks = dbTalks.filter(t => t.conference_room === auditoriumId);
+            const current = auditoriumTalks.find(t => t.start_datetime <= now);
+            const upcoming = auditoriumTalks.find(t => t.start_datetime > now);
+            const describe = async (dbTalk: IDbTalk | undefined) => {
+                const talk = dbTalk ? config.RUNTIME.conference.getTalk(dbTalk.event_id) : undefined;
+                return talk ? await describeTalk(talk, dbTalk) : undefined;
+            };
+            nowNext[auditoriumId] = {
+                auditoriumId: auditoriumId,
+                now: await describe(current),
+                next: await describe(upcoming),
+            };
+        }
+        return nowNext;
+    });
+}
+
+async function getTalk(talkId: string): Promise<IApiTalk | undefined> {
+    const talk = config.RUNTIME.conference.getTalk(talkId);
+    if (!talk) return undefined;
+    return await cached(`talk:${talkId}`, async () => describeTalk(talk, await config.RUNTIME.conference.getDbTalk(talkId)));
+}
+
+async function getAuditorium(auditoriumId: string): Promise<(IApiAuditorium & { talks: IApiTalk[] }) | undefined> {
+    const auditoriums = await getAuditoriums();
+    const auditorium = auditoriums.find(a => a.id === auditoriumId);
+    if (!auditorium) return undefined;
+    const talks = await getTalks();
+    return { ...auditorium, talks: talks.filter(t => t.auditoriumId === auditoriumId) };
+}
+
+/**
+ * Gets the questions on an auditorium's scoreboard. These change too often to be cached.
+ * @param auditoriumId The auditorium ID.
+ * @returns The Q&A state, if the auditorium exists; `undefined` otherwise.
+ */
+async function getQA(auditoriumId: string): Promise<IApiQA | undefined> {
+    const auditorium = config.RUNTIME.conference.getAuditorium(auditoriumId);
+    if (!auditorium) return undefined;
+    const scoreboard = config.RUNTIME.scoreboard.getScoreboard(auditorium.roomId);
+    return {
+        auditoriumId: auditoriumId,
+        talkId: scoreboard?.talkId,
+        qaStartTime: scoreboard?.qaStartTime,
+        questions: (scoreboard?.ordered ?? []).filter(q => !q.hidden),
+    };
+}
+
+/**
+ * Creates the router for version 1 of the read-only JSON API, which describes the conference and
+ * what is happening in it for signage, websites and apps.
+ * @returns The router, to be mounted at `/api/v1`.
+ */
+export function createApiRouter(): express.Router {
+    const router = express.Router();
+    router.use(applyCors);
+    router.get('/auditoriums', handle(() => getAuditoriums()));
+    router.get('/auditoriums/:auditoriumId', handle(req => getAuditorium(req.params['auditoriumId'])));
+    router.get('/auditoriums/:auditoriumId/now-next', handle(async req => {
+        const nowNext = await getNowNext();
+        return nowNext[req.params['auditoriumId']];
+    }));
+    router.get('/auditoriums/:auditoriumId/qa', handle(req => getQA(req.params['auditoriumId']), { noCache: true }));
+    router.get('/talks', handle(() => getTalks()));
+    router.get('/talks/:talkId', handle(req => getTalk(req.params['talkId'])));
+    router.get('/interest-rooms', handle(() => getInterestRooms()));
+    router.get('/now-next', handle(() => getNowNext()));
+    return router;
+}
@@ -0,0 +1,71 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { MatrixClient } from "matrix-bot-sdk";
+import { Conference } from "./Conference";
+import { IDbPerson } from "./db/DbPerson";
+import { resolveIdentifiers } from "./invites";
+
+export interface IRoomAttendance {
+    invited: number;
+    joined: number;
+    emailInvites: number; // people who can only be invited by email, so haven't joined yet
+}
+
+export interface IAttendance {
+    id: string; // the auditorium or interest ID
+    room: IRoomAttendance;
+    backstage?: IRoomAttendance; // not set for interest rooms
+}
+
+async function getRoomAttendance(client: MatrixClient, people: IDbPerson[], roomId: string): Promise<IRoomAttendance> {
+    const inviteTargets = await resolveIdentifiers(people);
+    const joinedMembers = await client.getJoinedRoomMembers(roomId);
+    return {
+        invited: inviteTargets.length,
+        joined: inviteTargets.filter(i => i.mxid && joinedMembers.includes(i.mxid)).length,
+        emailInvites: inviteTargets.filter(i => !i.mxid).length,
+    };
+}
+
+/**
+ * Works out how many of the people invited to each auditorium, its backstage and each interest
+ * room have joined. Email addresses are looked up on the identity server, so this can be slow.
+ * @param conference The conference.
+ * @param client The client to use.
+ * @returns The attendance of each auditorium and interest room.
+ */
+export async function getAttendance(conference: Conference, client: MatrixClient): Promise<IAttendance[]> {
+    const attendance: IAttendance[] = [];
+    for (const auditorium of conference.storedAuditoriums) {
+        const id = await auditorium.getId();
+        const backstage = conference.getAuditoriumBackstage(id);
+        attendance.push({
+            id,
+            room: await getRoomAttendance(client, await conference.getInviteTargetsForAuditorium(auditorium), auditorium.roomId),
+            backstage: backstage
+                ? await getRoomAttendance(client, await conference.getInviteTargetsForAuditorium(auditorium, true), backstage.roomId)
+                : undefined,
+        });
+    }
+    for (const spiRoom of conference.storedInterestRooms) {
+        attendance.push({
+            id: await spiRoom.getId(),
+            room: await getRoomAttendance(client, await conference.getInviteTargetsForInterest(spiRoom), spiRoom.roomId),
+        });
+    }
+    return attendance;
+}
@@ -17,8 +17,7 @@ limitations under the License.
 import { ICommand } from "./ICommand";
 import { MatrixClient } from "matrix-bot-sdk";
 import { Conference } from "../Conference";
-import { IDbPerson } from "../db/DbPerson";
-import { resolveIdentifiers } from "../invites";
+import { getAttendance } from "../attendance";
 import { COLOR_GREEN, COLOR_RED } from "../models/colors";
 
 export class AttendanceCommand implements ICommand {
@@ -44,53 +43,31 @@ export class AttendanceCommand implements ICommand {
 
         const targetAudId = args[0];
 
-
         let html = "<ul>";
-        const append = async (invitePeople: IDbPerson[], bsPeople: IDbPerson[], name: string, roomId: string, bsRoomId: string, withHtml: boolean) => {
-            const inviteTargets = await resolveIdentifiers(invitePeople);
-
-            const joinedMembers = await client.getJoinedRoomMembers(roomId);
+        for (const { id, room, backstage } of await getAttendance(conference, client)) {
+            const withHtml = targetAudId && (targetAudId === "all" || targetAudId === id);
 
-            const emailInvites = inviteTargets.filter(i => !i.mxid).length;
-            const joined = inviteTargets.filter(i => i.mxid && joinedMembers.includes(i.mxid)).length;
+            const acceptedPct = Math.round((room.joined / room.invited) * 100);
+            const emailPct = Math.round((room.emailInvites / room.invited) * 100);
 
-            const acceptedPct = Math.round((joined / inviteTargets.length) * 100);
-            const emailPct = Math.round((emailInvites / inviteTargets.length) * 100);
+            totalInvites += room.invited;
+            totalJoined += room.joined;
+            totalEmails += room.emailInvites;
 
-            totalInvites += inviteTargets.length;
-            totalJoined += joined;
-            totalEmails += emailInvites;
+            if (withHtml) html += `<li><b>${id}</b> ${this.htmlNum(acceptedPct)} have joined, ${this.htmlNum(emailPct, true)} have emails waiting`;
 
-            if (withHtml) html += `<li><b>${name}</b> ${this.htmlNum(acceptedPct)} have joined, ${this.htmlNum(emailPct, true)} have emails waiting`;
-
-            if (bsRoomId) {
-                const bsInviteTargets = await resolveIdentifiers(bsPeople);
-                const bsJoinedMembers = await client.getJoinedRoomMembers(bsRoomId);
-                const bsEmailInvites = bsInviteTargets.filter(i => !i.mxid).length;
-                const bsJoined = bsInviteTargets.filter(i => i.mxid && bsJoinedMembers.includes(i.mxid)).length;
-                const bsAcceptedPct = Math.round((bsJoined / bsInviteTargets.length) * 100);
-                const bsEmailPct = Math.round((bsEmailInvites / bsInviteTargets.length) * 100);
+            if (backstage) {
+                const bsAcceptedPct = Math.round((backstage.joined / backstage.invited) * 100);
+                const bsEmailPct = Math.round((backstage.emailInvites / backstage.invited) * 100);
 
                 if (withHtml) html += ` (backstage: ${this.htmlNum(bsAcceptedPct)} joined, ${this.htmlNum(bsEmailPct, true)}% emails)`;
 
-                totalInvites += bsInviteTargets.length;
-                totalJoined += bsJoined;
-                totalEmails += bsEmailInvites;
+                totalInvites += backstage.invited;
+                totalJoined += backstage.joined;
+                totalEmails += backstage.emailInvites;
             }
 
             if (withHtml) html += "</li>";
-        };
-        for (const auditorium of conference.storedAuditoriums) {
-            const doAppend = targetAudId && (targetAudId === "all" || targetAudId === await auditorium.getId());
-            const bs = conference.getAuditoriumBackstage(await auditorium.getId());
-            const inviteTargets = await conference.getInviteTargetsForAuditorium(auditorium);
-            const bsInviteTargets = await conference.getInviteTargetsForAuditorium(auditorium, true);
-            await append(inviteTargets, bsInviteTargets, await auditorium.getId(), auditorium.roomId, bs.roomId, doAppend);
-        }
-        for (const spiRoom of conference.storedInterestRooms) {
-            const doAppend = targetAudId && (targetAudId === "all" || targetAudId === await spiRoom.getId());
-            const inviteTargets = await conference.getInviteTargetsForInterest(spiRoom);
-            await append(inviteTargets, undefined, await spiRoom.getId(), spiRoom.roomId, undefined, doAppend);
         }
         html += "</ul>";
 
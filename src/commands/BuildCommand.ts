@@ -23,7 +23,10 @@ import config from "../config";
 import { Conference } from "../Conference";
 import { logMessage } from "../LogProxy";
 import { editNotice } from "../utils";
-import { getConferenceParser } from "../parsers/AParser";
+import { getConferenceParser } from "../parsers";
+import { getScheduleFilePath } from "../db/FileDb";
+import { promises as fs } from "node:fs";
+import { applyScheduleSync, ITalkSyncFailure, planScheduleSync, renderScheduleSyncPlan } from "./actions/sync";
 
 export class BuildCommand implements ICommand {
     public readonly prefixes = ["build", "b"];
@@ -47,6 +50,22 @@ export class BuildCommand implements ICommand {
                     return;
                 }
             }
+            case "pretalx": {
+                if (config.conference.pretalxDefinition) {
+                    inputData = await fetch(config.conference.pretalxDefinition).then(r => r.text());
+                    break;
+                } else {
+                    const message = "Your bot is not set up correctly. Please check your config!";
+                    const reply = RichReply.createFor(roomId, event, message, message);
+                    reply["msgtype"] = "m.notice";
+                    await client.sendMessage(roomId, reply);
+                    return;
+                }
+            }
+            case "file": {
+                inputData = await fs.readFile(getScheduleFilePath(), "utf-8");
+                break;
+            }
             default: {
                 const message = "Your bot is not set up correctly. Please check your config!";
                 const reply = RichReply.createFor(roomId, event, message, message);
@@ -57,6 +76,28 @@ export class BuildCommand implements ICommand {
         }
         const parsed = getConferenceParser(inputData);
 
+        if (args[0] === "sync") {
+            if (!conference.isCreated) {
+                await client.replyNotice(roomId, event, "The conference has not been built yet. Run the build command without `sync` first.");
+                return;
+            }
+
+            const isPreview = args.includes("--plan");
+            const plan = await planScheduleSync(conference, parsed);
+            let failures: ITalkSyncFailure[] = [];
+            if (!isPreview) {
+                if (plan.auditoriums.length > 0) {
+                    // New auditoriums may belong in subspaces which don't exist yet
+                    for (const [subspaceId, subspaceConfig] of Object.entries(config.conference.subspaces)) {
+                        await conference.createSubspace(subspaceId, subspaceConfig.displayName, subspaceConfig.alias);
+                    }
+                }
+                failures = await applyScheduleSync(conference, plan);
+            }
+            await client.sendHtmlNotice(roomId, renderScheduleSyncPlan(plan, isPreview, failures));
+            return;
+        }
+
         if (!conference.isCreated) {
             await conference.createDb(parsed.conference);
         }
@@ -0,0 +1,119 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ICommand } from "./ICommand";
+import { MatrixClient } from "matrix-bot-sdk";
+import { DateTime } from "luxon";
+import * as htmlEscape from "escape-html";
+import { Conference } from "../Conference";
+import { CheckinAlertStatus, ICheckinAlert } from "../CheckinAlerts";
+import config from "../config";
+
+function formatTime(ts: number): string {
+    return DateTime.fromMillis(ts, { zone: config.conference.timezone }).toFormat("HH:mm");
+}
+
+export class CheckinsCommand implements ICommand {
+    public readonly prefixes = ["checkins"];
+
+    public async run(conference: Conference, client: MatrixClient, roomId: string, event: any, args: string[]) {
+        const alerts = config.RUNTIME.checkinAlerts;
+
+        if (args[0] === "ack" || args[0] === "resolve") {
+            if (!args[1]) {
+                return await client.replyNotice(roomId, event, "Usage: checkins [aud], checkins alerts [all], checkins ack <talk-id>, or checkins resolve <talk-id>");
+            }
+            const status = args[0] === "ack" ? CheckinAlertStatus.Acknowledged : CheckinAlertStatus.Resolved;
+            const alert = await alerts.update(args[1], status, event['sender']);
+            if (!alert) {
+                return await client.replyNotice(roomId, event, `There is no check-in alert for ${args[1]}`);
+            }
+            return await client.unstableApis.addReactionToEvent(roomId, event['event_id'], '✅');
+        }
+
+        if (args[0] === "alerts") {
+            return await this.listAlerts(conference, client, roomId, event, args[1] === "all");
+        }
+
+        const audId = args[0];
+        if (audId && !conference.getAuditorium(audId) && !conference.getInterestRoom(audId)) {
+            return await client.replyNotice(roomId, event, `Unknown auditorium or interest room: ${audId}`);
+        }
+        const statuses = await config.RUNTIME.checkins.getUpcomingStatus(audId);
+        if (statuses.length === 0) {
+            return await client.replyNotice(roomId, event, "There are no talks starting in the next couple of hours.");
+        }
+
+        let html = "Check-ins for upcoming talks:<ul>";
+        for (const status of statuses) {
+            html += `<li>${formatTime(status.startTime)} <b>${htmlEscape(status.title)}</b> in <code>${htmlEscape(status.auditoriumId)}</code> (<code>${htmlEscape(status.talkId)}</code>)`;
+            if (status.alert && status.alert !== CheckinAlertStatus.Resolved) {
+                html += ` - <b>at risk</b> (${status.alert})`;
+            }
+            html += "<ul>";
+            if (status.people.length === 0) {
+                html += "<li>Nobody needs to check in</li>";
+            }
+            for (const person of status.people) {
+                const who = person.name
+                    ? `${htmlEscape(person.name)}${person.role ? ` (${person.role})` : ""}`
+                    : htmlEscape(person.userId);
+                let state: string;
+                if (person.checkedIn) {
+                    state = `✅ checked in at ${formatTime(person.checkedInAt)} by ${person.method}`;
+                } else if (!person.userId) {
+                    state = "❌ no Matrix ID known";
+                } else {
+                    state = "❌ not checked in";
+                }
+                html += `<li>${who}: ${state}</li>`;
+            }
+            html += "</ul></li>";
+        }
+        html += "</ul>";
+        await client.replyHtmlNotice(roomId, event, html);
+    }
+
+    private async listAlerts(conference: Conference, client: MatrixClient, roomId: string, event: any, includeResolved: boolean) {
+        const atRisk = config.RUNTIME.checkinAlerts.getAlerts(includeResolved);
+        if (atRisk.length === 0) {
+            return await client.replyNotice(roomId, event, "No talks are at risk from missing check-ins.");
+        }
+
+        let html = "Talks at risk from missing check-ins:<ul>";
+        for (const alert of atRisk) {
+            const talk = conference.getTalk(alert.talkId);
+            const definition = await talk?.getDefinition();
+            const title = definition?.title ?? alert.talkId;
+            html += `<li>${formatTime(alert.startTime)} <b>${htmlEscape(title)}</b> in <code>${htmlEscape(alert.auditoriumId)}</code> (<code>${htmlEscape(alert.talkId)}</code>): ` +
+                `${this.describeStatus(alert)}. Missing: ${htmlEscape(alert.missingNames.join(", "))}`;
+            const stillMissing = alert.missingUserIds.filter(u => !config.RUNTIME.checkins.isCheckedIn(alert.talkId, u));
+            if (alert.missingUserIds.length > 0 && stillMissing.length < alert.missingUserIds.length) {
+                html += ` (${alert.missingUserIds.length - stillMissing.length} have checked in since)`;
+            }
+            html += "</li>";
+        }
+        html += "</ul>";
+        await client.replyHtmlNotice(roomId, event, html);
+    }
+
+    private describeStatus(alert: ICheckinAlert): string {
+        if (alert.status === CheckinAlertStatus.Open) {
+            return `<b>open</b> since ${formatTime(alert.raisedAt)}`;
+        }
+        return `${alert.status} by ${htmlEscape(alert.updatedBy)} at ${formatTime(alert.updatedAt)}`;
+    }
+}
@@ -0,0 +1,174 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ICommand } from "./ICommand";
+import { LogLevel, MatrixClient } from "matrix-bot-sdk";
+import { DateTime } from "luxon";
+import * as htmlEscape from "escape-html";
+import { Conference } from "../Conference";
+import { Auditorium } from "../models/Auditorium";
+import { IDbTalk } from "../db/DbTalk";
+import { getLocale, renderMessage, sendRenderedMessage } from "../messages";
+import { logMessage } from "../LogProxy";
+import config from "../config";
+
+// How far ahead to look for talks which have not finished yet.
+const REMAINING_TALKS_WINDOW_MINUTES = 24 * 60;
+
+interface ITalkTimes {
+    talk: IDbTalk;
+    previous: IDbTalk;
+}
+
+function formatTime(ts: number): string {
+    return DateTime.fromMillis(ts, { zone: config.conference.timezone }).toFormat("HH:mm");
+}
+
+/**
+ * Gets the talks in an auditorium which have not finished yet, in order.
+ * @param conference The conference.
+ * @param audId The ID of the auditorium.
+ * @returns The talks, with any delays applied.
+ */
+async function getRemainingTalks(conference: Conference, audId: string): Promise<IDbTalk[]> {
+    const db = await conference.getBackendDb();
+    const talks = await db.getUpcomingTalkEnds(REMAINING_TALKS_WINDOW_MINUTES, 0);
+    return talks.filter(t => t.conference_room === audId).sort((a, b) => a.start_datetime - b.start_datetime);
+}
+
+export class DelayCommand implements ICommand {
+    public readonly prefixes = ["delay"];
+
+    public async run(conference: Conference, client: MatrixClient, roomId: string, event: any, args: string[]) {
+        const delays = conference.getScheduleDelays();
+        const audId = args[0];
+        if (!audId || !args[1]) {
+            const existing = await delays.getDelays(audId);
+            if (existing.length === 0) {
+                return await client.replyNotice(roomId, event, "There are no delays to the schedule.");
+            }
+            let html = "Delays to the schedule:<ul>";
+            for (const delay of existing) {
+                const sign = delay.minutes > 0 ? "+" : "";
+                html += `<li><code>${htmlEscape(delay.auditoriumId)}</code>: ${sign}${delay.minutes} minutes from ${formatTime(delay.fromTime)}</li>`;
+            }
+            html += "</ul>";
+            return await client.replyHtmlNotice(roomId, event, html);
+        }
+
+        const aud = conference.getAuditorium(audId);
+        if (!aud) return await client.replyNotice(roomId, event, "Unknown auditorium");
+
+        if (args[1] === "clear") {
+            const before = await getRemainingTalks(conference, audId);
+            const removed = await delays.clearDelays(audId);
+            if (removed === 0) {
+                return await client.replyNotice(roomId, event, `There are no delays to ${audId}.`);
+            }
+            const changed = await this.announceChanges(conference, client, aud, before);
+            return await client.replyNotice(roomId, event, `Cleared ${removed} delays to ${audId}. ${changed} talks are back on their scheduled times.`);
+        }
+
+        if (!/^[+-]?\d+$/.test(args[1]) || Number(args[1]) === 0) {
+            return await client.replyNotice(roomId, event, "Usage: delay <aud> <+/-minutes> [from-talk], delay <aud> clear, or delay [aud] to list delays.");
+        }
+        const minutes = Number(args[1]);
+
+        const before = await getRemainingTalks(conference, audId);
+        const fromTalkId = args[2] ?? before[0]?.event_id;
+        if (!fromTalkId) {
+            return await client.replyNotice(roomId, event, `There are no talks left to delay in ${audId}.`);
+        }
+        const fromTalk = await delays.getScheduledTalk(fromTalkId);
+        if (!fromTalk || fromTalk.conference_room !== audId) {
+            return await client.replyNotice(roomId, event, `Unknown talk in ${audId}: ${fromTalkId}`);
+        }
+
+        await delays.addDelay(audId, fromTalk.start_datetime, minutes);
+
+        const changed = await this.announceChanges(conference, client, aud, before);
+        const direction = minutes > 0 ? "Delayed" : "Brought forward";
+        await client.replyNotice(roomId, event, `${direction} ${changed} talks in ${audId} by ${Math.abs(minutes)} minutes.`);
+    }
+
+    /**
+     * Tells the rooms of talks which have been moved about their new times, and moves the Q&A
+     * countdown if it is showing for one of them.
+     * @param conference The conference.
+     * @param client The client to send messages with.
+     * @param aud The auditorium which has been delayed.
+     * @param before The auditorium's remaining talks, before they were moved.
+     * @returns The number of talks which have been moved.
+     */
+    private async announceChanges(conference: Conference, client: MatrixClient, aud: Auditorium, before: IDbTalk[]): Promise<number> {
+        const db = await conference.getBackendDb();
+        const audId = await aud.getId();
+        const locale = getLocale(audId);
+
+        const moved: ITalkTimes[] = [];
+        for (const previous of before) {
+            const talk = await db.getTalk(previous.event_id);
+            if (!talk || talk.start_datetime === previous.start_datetime) continue;
+            moved.push({ talk, previous });
+            await config.RUNTIME.scoreboard.moveQACountdown(aud.roomId, previous.qa_start_datetime, talk.qa_start_datetime);
+        }
+        if (moved.length === 0) return 0;
+
+        const talks = [];
+        for (const { talk, previous } of moved) {
+            const confTalk = conference.getTalk(talk.event_id);
+            if (!confTalk) continue;
+            const definition = await confTalk.getDefinition();
+            const variables = {
+                talk: {
+                    id: talk.event_id,
+                    title: definition.title,
+                    roomId: confTalk.roomId,
+                    prerecorded: talk.prerecorded,
+                    startTime: formatTime(talk.start_datetime),
+                    qaStartTime: formatTime(talk.qa_start_datetime),
+                    endTime: formatTime(talk.end_datetime),
+                    previousStartTime: formatTime(previous.start_datetime),
+                },
+                minutes: Math.round(Math.abs(talk.start_datetime - previous.start_datetime) / (60 * 1000)),
+                delayed: talk.start_datetime > previous.start_datetime,
+            };
+            talks.push(variables.talk);
+
+            try {
+                const message = await renderMessage("schedule_delayed.talk", variables, locale);
+                await sendRenderedMessage(client, confTalk.roomId, message);
+            } catch (error) {
+                await logMessage(LogLevel.WARN, "DelayCommand", `Failed to tell ${talk.event_id} about its new times: ${error?.message ?? error}`);
+            }
+        }
+
+        try {
+            const message = await renderMessage("schedule_delayed.auditorium", {
+                auditorium: {
+                    id: audId,
+                    name: await aud.getName(),
+                },
+                talks: talks,
+            }, locale);
+            await sendRenderedMessage(client, aud.roomId, message);
+        } catch (error) {
+            await logMessage(LogLevel.WARN, "DelayCommand", `Failed to tell ${audId} about its new times: ${error?.message ?? error}`);
+        }
+
+        return moved.length;
+    }
+}
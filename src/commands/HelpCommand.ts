@@ -36,9 +36,36 @@ export class HelpCommand implements ICommand {
             "                                                            'nosi' excludes special interest rooms.\n" +
             "!conference build talk &lt;aud&gt; &lt;talk-id&gt;                    - Builds the auditorium and room for a single talk.\n" +
             "!conference build interest &lt;interest-id&gt;                  - Builds a single interest room.\n" +
-            "!conference run &lt;aud&gt;                                     - Runs the schedule in the given auditorium. If 'all' is used,\n" +
-            "                                                            then all auditoriums will be run.\n" +
+            "!conference build sync [--plan]                           - Updates existing rooms to match the schedule: renames, reschedules\n" +
+            "                                                            and moves talks, and marks removed talks as cancelled.\n" +
+            "                                                            '--plan' lists the changes without making them.\n" +
+            "!conference run &lt;aud&gt;                                     - Runs the schedule in the given auditorium or interest room. If\n" +
+            "                                                            'all' is used, then all auditoriums and interest rooms will be run.\n" +
             "!conference stop                                          - Halts all scheduling, resetting the bot back to no watched auditoriums.\n" +
+            "!conference schedule simulate &lt;aud&gt; &lt;from&gt; &lt;to&gt;           - Lists what the schedule would do in the given auditorium (or 'all')\n" +
+            "                                                            between two times, without sending anything. Times are ISO 8601\n" +
+            "                                                            in the conference's timezone, or 'now'.\n" +
+            "!conference schedule pause &lt;aud&gt;                          - Holds the schedule in the given auditorium until it is resumed.\n" +
+            "!conference schedule resume &lt;aud&gt;                         - Resumes the schedule in the given auditorium. Tasks which fell due\n" +
+            "                                                            while paused run late if they are only a few minutes behind.\n" +
+            "!conference schedule skip &lt;task-id&gt;                       - Marks a task as completed without running it.\n" +
+            "!conference schedule fire &lt;task-id&gt;                       - Runs a pending or future task now, and not again at its scheduled time.\n" +
+            "!conference schedule history [aud] [--failed]             - Lists the most recent tasks which have run, and whether they worked.\n" +
+            "!conference delay &lt;aud&gt; &lt;+/-minutes&gt; [talk]               - Delays the rest of the auditorium's schedule, from the given talk or\n" +
+            "                                                            the current one, and tells the affected rooms the new times.\n" +
+            "!conference delay &lt;aud&gt; clear                             - Returns the auditorium's talks to their scheduled times.\n" +
+            "!conference delay [aud]                                   - Lists the delays to the schedule.\n" +
+            "!conference checkins [aud]                                - Shows whether the speakers and hosts of talks starting in the next\n" +
+            "                                                            two hours have checked in, in the given auditorium or everywhere.\n" +
+            "!conference checkins alerts [all]                         - Lists the talks at risk because speakers haven't checked in, and\n" +
+            "                                                            whether coordinators are on it. 'all' includes resolved alerts.\n" +
+            "!conference checkins ack|resolve &lt;talk-id&gt;                - Acknowledges or resolves a talk's check-in alert. Coordinators can\n" +
+            "                                                            also react to the alert with 👀 or ✅.\n" +
+            "!conference qa export &lt;talk-id&gt;                           - Posts the questions from a talk's Q&amp;A to its talk room, taking\n" +
+            "                                                            a fresh snapshot if they are still on the scoreboard.\n" +
+            "!conference scoreboard attach &lt;room&gt;                      - Adds a Q&amp;A scoreboard widget to an auditorium, interest room, or any\n" +
+            "                                                            other room given by ID or alias, such as a hybrid session's room.\n" +
+            "!conference scoreboard reset &lt;room&gt;                       - Clears the questions from a room's scoreboard.\n" +
             "</code></pre>" +
             "<h4>People management:</h4>" +
             "<pre><code>" +
@@ -60,6 +87,16 @@ export class HelpCommand implements ICommand {
             "!conference inviteto &lt;room&gt; &lt;user&gt;  - Asks the bot to invite the given user to the given room.\n" +
             "!conference copymods &lt;from&gt; &lt;to&gt;    - Copies the moderators from one room to another.\n" +
             "!conference widgets &lt;aud&gt;           - Creates all widgets for the auditorium and its talks.\n" +
+            "!conference widgets dashboard       - Adds the organisers' dashboard to the management room.\n" +
+            "</code></pre>" +
+            "<h4>In talk rooms:</h4>" +
+            "<pre><code>" +
+            "!checkin                                        - Checks a speaker or host in for the talk.\n" +
+            "!qa [list]                                      - Lists the questions on the auditorium's Q&amp;A scoreboard. The !qa\n" +
+            "                                                  commands also work in other rooms with a scoreboard of their own.\n" +
+            "!qa pin|answer|hide &lt;number or event ID&gt;        - Pins, marks as answered or hides a question. Hosts and coordinators\n" +
+            "                                                  can also react to questions in the auditorium with 📌, ✅ or 🙈.\n" +
+            "!qa unpin|unanswer|unhide &lt;number or event ID&gt;  - Undoes a pin, answer or hide.\n" +
             "</code></pre>" +
             "";
         return client.replyHtmlNotice(roomId, event, htmlHelp);
@@ -0,0 +1,44 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ICommand } from "./ICommand";
+import { MatrixClient } from "matrix-bot-sdk";
+import { Conference } from "../Conference";
+import config from "../config";
+
+export class QACommand implements ICommand {
+    public readonly prefixes = ["qa"];
+
+    public async run(conference: Conference, client: MatrixClient, roomId: string, event: any, args: string[]) {
+        if (args[0] !== "export" || !args[1]) {
+            return await client.replyNotice(roomId, event, "Usage: qa export <talk-id>");
+        }
+
+        const talkId = args[1];
+        if (!conference.getTalk(talkId)) {
+            return await client.replyNotice(roomId, event, `Unknown talk: ${talkId}`);
+        }
+
+        // Take a fresh snapshot while the talk's questions are still on the scoreboard
+        const qaArchive = config.RUNTIME.qaArchive;
+        const archive = await qaArchive.snapshot(talkId) ?? await qaArchive.get(talkId);
+        if (!archive) {
+            return await client.replyNotice(roomId, event, `There are no questions to export for ${talkId}.`);
+        }
+        await qaArchive.publish(archive);
+        await client.replyNotice(roomId, event, `Posted ${archive.questions.length} questions to the talk room for ${talkId}.`);
+    }
+}
@@ -27,10 +27,11 @@ export class RunCommand implements ICommand {
         if (audId === "all") {
             await config.RUNTIME.scheduler.addAuditorium("all");
         } else {
-            const aud = conference.getAuditorium(audId);
-            if (!aud) return await client.replyHtmlNotice(roomId, event, "Unknown auditorium");
+            // Interest rooms are run in the same way as auditoriums
+            const room = conference.getAuditorium(audId) ?? conference.getInterestRoom(audId);
+            if (!room) return await client.replyHtmlNotice(roomId, event, "Unknown auditorium or interest room");
 
-            await config.RUNTIME.scheduler.addAuditorium(await aud.getId());
+            await config.RUNTIME.scheduler.addAuditorium(await room.getId());
         }
 
         await client.unstableApis.addReactionToEvent(roomId, event['event_id'], '✅');
@@ -20,6 +20,22 @@ import { Conference } from "../Conference";
 import config from "../config";
 import { getStartTime, sortTasks } from "../Scheduler";
 import { DateTime } from "luxon";
+import * as htmlEscape from "escape-html";
+
+const SIMULATION_TIME_FORMAT = "yyyy-LL-dd HH:mm";
+
+// Keep long listings comfortably within the 64KiB event size limit
+const MAX_MESSAGE_LENGTH = 24 * 1024;
+
+const HISTORY_LIMIT = 50;
+
+function parseSimulationTime(str: string | undefined): DateTime | undefined {
+    if (!str) return undefined;
+    const time = str === "now"
+        ? DateTime.now().setZone(config.conference.timezone)
+        : DateTime.fromISO(str, { zone: config.conference.timezone });
+    return time.isValid ? time : undefined;
+}
 
 export class ScheduleCommand implements ICommand {
     public readonly prefixes = ["schedule"];
@@ -36,13 +52,21 @@ export class ScheduleCommand implements ICommand {
                 const upcoming = sortTasks(config.RUNTIME.scheduler.inspect());
                 let html = "Upcoming tasks:<ul>";
                 for (const task of upcoming) {
-                    const talkRoom = conference.getTalk(task.talk.event_id);
+                    const talkRoom = conference.getTalk(task.talk.event_id) ?? conference.getInterestRoom(task.talk.conference_room);
                     if (!talkRoom) continue;
                     const taskStart = DateTime.fromMillis(getStartTime(task));
                     const formattedTimestamp = taskStart.toFormat("yyyy-LL-dd HH:mm:ss [UTC]ZZ");
-                    html += `<li>${formattedTimestamp}: <b>${task.type} on ${await talkRoom.getName()}</b> (<code>${task.id}</code>) ${taskStart.toRelative()}</li>`;
+                    html += `<li>${formattedTimestamp}: <b>${task.timelineTask.name} on ${await talkRoom.getName()}</b> (<code>${task.id}</code>) ${taskStart.toRelative()}</li>`;
                 }
                 html += "</ul>";
+                const paused = config.RUNTIME.scheduler.getPausedAuditoriums();
+                if (paused.length > 0) {
+                    html += `Paused auditoriums: ${htmlEscape(paused.join(", "))}<br />`;
+                }
+                const atRisk = config.RUNTIME.checkinAlerts.getAlerts();
+                if (atRisk.length > 0) {
+                    html += `Talks at risk from missing check-ins: ${htmlEscape(atRisk.map(a => `${a.talkId} (${a.status})`).join(", "))}`;
+                }
                 await client.sendHtmlNotice(roomId, html);
 
                 break;
@@ -53,6 +77,110 @@ export class ScheduleCommand implements ICommand {
 
                 break;
             }
+            case 'fire': {
+                await config.RUNTIME.scheduler.execute(args[1], true);
+                await client.unstableApis.addReactionToEvent(roomId, event['event_id'], '✅');
+
+                break;
+            }
+            case 'skip': {
+                await config.RUNTIME.scheduler.skip(args[1]);
+                await client.unstableApis.addReactionToEvent(roomId, event['event_id'], '✅');
+
+                break;
+            }
+            case 'pause':
+            case 'resume': {
+                const room = conference.getAuditorium(args[1]) ?? conference.getInterestRoom(args[1]);
+                if (!room) return await client.replyNotice(roomId, event, "Unknown auditorium or interest room");
+
+                if (args[0] === 'pause') {
+                    await config.RUNTIME.scheduler.pauseAuditorium(await room.getId());
+                } else {
+                    await config.RUNTIME.scheduler.resumeAuditorium(await room.getId());
+                }
+                await client.unstableApis.addReactionToEvent(roomId, event['event_id'], '✅');
+
+                break;
+            }
+            case 'simulate': {
+                const audId = args[1];
+                const from = parseSimulationTime(args[2]);
+                const to = parseSimulationTime(args[3]);
+                if (!audId || !from || !to) {
+                    await client.replyNotice(roomId, event, "Usage: schedule simulate <aud|all> <from> <to>, where times are ISO 8601 in the conference's timezone or 'now'.");
+                    return;
+                }
+                if (audId !== "all" && !conference.getAuditorium(audId) && !conference.getInterestRoom(audId)) {
+                    await client.replyNotice(roomId, event, `Unknown auditorium or interest room: ${audId}`);
+                    return;
+                }
+
+                const tasks = await config.RUNTIME.scheduler.simulate(audId, from.toMillis(), to.toMillis());
+                const header = `<h4>Simulated schedule for ${htmlEscape(audId)} from ${from.toFormat(SIMULATION_TIME_FORMAT)} to ${to.toFormat(SIMULATION_TIME_FORMAT)}</h4>` +
+                    `<p>Nothing has been sent. Nobody is assumed to check in.</p>`;
+                if (tasks.length === 0) {
+                    await client.sendHtmlNotice(roomId, header + "<p>No tasks would run.</p>");
+                    return;
+                }
+
+                // Split long timelines over several messages to stay within the event size limit
+                let html = header + "<ul>";
+                for (const task of tasks) {
+                    const talkRoom = conference.getTalk(task.talkId) ?? conference.getInterestRoom(task.auditoriumId);
+                    const talkName = talkRoom ? await talkRoom.getName() : `unknown talk ${task.talkId}`;
+                    const taskTime = DateTime.fromMillis(task.time, { zone: config.conference.timezone });
+                    let item = `<li>${taskTime.toFormat(SIMULATION_TIME_FORMAT)}: <b>${htmlEscape(task.name)} on ${htmlEscape(talkName)}</b><ul>`;
+                    item += task.effects.length > 0 ? task.effects.map(e => `<li>${e}</li>`).join("") : "<li>Nothing</li>";
+                    item += "</ul></li>";
+                    if (html.length + item.length > MAX_MESSAGE_LENGTH) {
+                        await client.sendHtmlNotice(roomId, html + "</ul>");
+                        html = "<ul>";
+                    }
+                    html += item;
+                }
+                await client.sendHtmlNotice(roomId, html + "</ul>");
+
+                break;
+            }
+            case 'history': {
+                const failedOnly = args.includes("--failed");
+                const audId = args.slice(1).find(a => a !== "--failed");
+                if (audId && !conference.getAuditorium(audId) && !conference.getInterestRoom(audId)) {
+                    await client.replyNotice(roomId, event, `Unknown auditorium or interest room: ${audId}`);
+                    return;
+                }
+
+                const executions = await config.RUNTIME.scheduler.getHistory().getExecutions({
+                    auditoriumId: audId,
+                    failedOnly: failedOnly,
+                    limit: HISTORY_LIMIT,
+                });
+                const what = `${failedOnly ? "failed " : ""}tasks${audId ? ` in ${htmlEscape(audId)}` : ""}`;
+                if (executions.length === 0) {
+                    await client.sendHtmlNotice(roomId, `No ${what} have run.`);
+                    return;
+                }
+
+                let html = `Last ${executions.length} ${what}:<ul>`;
+                for (const execution of executions) {
+                    const firedAt = DateTime.fromMillis(execution.firedAt, { zone: config.conference.timezone });
+                    const lateSeconds = Math.round((execution.firedAt - execution.scheduledTime) / 1000);
+                    const outcome = execution.error === undefined
+                        ? `✅ ${execution.eventIds.length} events sent`
+                        : `❌ ${htmlEscape(execution.error)}`;
+                    const item = `<li>${firedAt.toFormat("yyyy-LL-dd HH:mm:ss")}: <b>${htmlEscape(execution.name)}</b> for <code>${htmlEscape(execution.talkId)}</code> ` +
+                        `(${execution.trigger}, ${lateSeconds}s after its scheduled time, took ${execution.durationMs}ms) - ${outcome}</li>`;
+                    if (html.length + item.length > MAX_MESSAGE_LENGTH) {
+                        await client.sendHtmlNotice(roomId, html + "</ul>");
+                        html = "<ul>";
+                    }
+                    html += item;
+                }
+                await client.sendHtmlNotice(roomId, html + "</ul>");
+
+                break;
+            }
             default: {
                 await client.sendNotice(roomId, "Unknown schedule command.");
             }
@@ -0,0 +1,78 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ICommand } from "./ICommand";
+import { LogService, MatrixClient } from "matrix-bot-sdk";
+import { Conference } from "../Conference";
+import { LiveWidget } from "../models/LiveWidget";
+import config from "../config";
+
+export class ScoreboardCommand implements ICommand {
+    public readonly prefixes = ["scoreboard"];
+
+    public async run(conference: Conference, client: MatrixClient, roomId: string, event: any, args: string[]) {
+        if ((args[0] !== "attach" && args[0] !== "reset") || !args[1]) {
+            return await client.replyNotice(roomId, event, "Usage: scoreboard attach <room>, or scoreboard reset <room>");
+        }
+
+        const targetRoomId = await this.resolveRoom(conference, client, args[1]);
+        if (!targetRoomId) {
+            return await client.replyNotice(roomId, event, `Unknown room: ${args[1]}`);
+        }
+
+        const scoreboard = config.RUNTIME.scoreboard;
+        if (args[0] === "reset") {
+            if (!scoreboard.hasScoreboard(targetRoomId)) {
+                return await client.replyNotice(roomId, event, `${args[1]} doesn't have a scoreboard.`);
+            }
+            await scoreboard.resetScoreboard(targetRoomId);
+            return await client.replyNotice(roomId, event, `Cleared the scoreboard for ${args[1]}.`);
+        }
+
+        await scoreboard.enableScoreboard(targetRoomId);
+        const widget = await LiveWidget.scoreboardForRoom(targetRoomId, client);
+        let existingLayout;
+        try {
+            existingLayout = await client.getRoomStateEvent(targetRoomId, "io.element.widgets.layout", "");
+        } catch (error) {
+            LogService.info("ScoreboardCommand", `No existing widget layout in ${targetRoomId}:`, error?.message ?? error);
+        }
+        const layout = LiveWidget.layoutWithScoreboard(widget, existingLayout);
+        await client.sendStateEvent(targetRoomId, widget.type, widget.state_key, widget.content);
+        await client.sendStateEvent(targetRoomId, layout.type, layout.state_key, layout.content);
+        await client.replyNotice(roomId, event, `Attached a scoreboard to ${args[1]}.`);
+    }
+
+    /**
+     * Finds a room to attach a scoreboard to.
+     * @param conference The conference.
+     * @param client The client.
+     * @param target An auditorium ID, interest room ID, room ID or room alias.
+     * @returns The room ID, if the room could be found.
+     */
+    private async resolveRoom(conference: Conference, client: MatrixClient, target: string): Promise<string | undefined> {
+        const room = conference.getAuditorium(target) ?? conference.getInterestRoom(target);
+        if (room) return room.roomId;
+        if (!target.startsWith("!") && !target.startsWith("#")) return undefined;
+
+        try {
+            return await client.resolveRoom(target);
+        } catch (error) {
+            LogService.warn("ScoreboardCommand", `Cannot resolve ${target}:`, error?.message ?? error);
+            return undefined;
+        }
+    }
+}
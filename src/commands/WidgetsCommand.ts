@@ -20,6 +20,7 @@ import { Conference } from "../Conference";
 import { LiveWidget } from "../models/LiveWidget";
 import { asyncFilter } from "../utils";
 import { Auditorium } from "../models/Auditorium";
+import config from "../config";
 
 export class WidgetsCommand implements ICommand {
     public readonly prefixes = ["widgets"];
@@ -28,8 +29,10 @@ export class WidgetsCommand implements ICommand {
         const audWidget = await LiveWidget.forAuditorium(aud, client);
         const audLayout = LiveWidget.layoutForAuditorium(audWidget);
         const audSchedule = await LiveWidget.scheduleForAuditorium(aud, client);
+        const audNowNext = await LiveWidget.nowNextForAuditorium(aud, client);
         await client.sendStateEvent(aud.roomId, audWidget.type, audWidget.state_key, audWidget.content);
         await client.sendStateEvent(aud.roomId, audSchedule.type, audSchedule.state_key, audSchedule.content);
+        await client.sendStateEvent(aud.roomId, audNowNext.type, audNowNext.state_key, audNowNext.content);
         await client.sendStateEvent(aud.roomId, audLayout.type, audLayout.state_key, audLayout.content);
 
         const talks = await asyncFilter(conference.storedTalks, async t => (await t.getAuditoriumId()) === (await aud.getId()));
@@ -44,7 +47,10 @@ export class WidgetsCommand implements ICommand {
     }
 
     public async run(conference: Conference, client: MatrixClient, roomId: string, event: any, args: string[]) {
-        if (args[0] === 'all') {
+        if (args[0] === 'dashboard') {
+            const dashboardWidget = await LiveWidget.dashboardForManagementRoom(client);
+            await client.sendStateEvent(config.managementRoom, dashboardWidget.type, dashboardWidget.state_key, dashboardWidget.content);
+        } else if (args[0] === 'all') {
             for (const aud of conference.storedAuditoriums) {
                 await this.addToRoom(aud, client, conference);
             }
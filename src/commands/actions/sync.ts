@@ -0,0 +1,214 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { LogLevel } from "matrix-bot-sdk";
+import { DateTime } from "luxon";
+import * as htmlEscape from "escape-html";
+import { Conference } from "../../Conference";
+import { ConferenceParser } from "../../parsers/AParser";
+import { IAuditorium, ITalk } from "../../models/schedule";
+import { logMessage } from "../../LogProxy";
+
+export enum TalkSyncAction {
+    Create = "create",
+    Update = "update",
+    Cancel = "cancel",
+}
+
+export interface ITalkSync {
+    action: TalkSyncAction;
+    talkId: string;
+    title: string;
+    auditoriumId: string;
+    talk?: ITalk; // not set for cancelled talks
+    changes: string[];
+}
+
+export interface IScheduleSyncPlan {
+    auditoriums: IAuditorium[];
+    talks: ITalkSync[];
+}
+
+export interface ITalkSyncFailure {
+    talkSync: ITalkSync;
+    error: string;
+}
+
+function formatTime(ts: number): string {
+    return DateTime.fromMillis(ts).toFormat("yyyy-LL-dd HH:mm [UTC]ZZ");
+}
+
+/**
+ * Works out which changes need to be made to the conference's rooms so that they match the
+ * schedule. Nothing is changed.
+ * @param conference The conference.
+ * @param parsed The parsed schedule.
+ * @returns The changes to be made.
+ */
+export async function planScheduleSync(conference: Conference, parsed: ConferenceParser): Promise<IScheduleSyncPlan> {
+    const plan: IScheduleSyncPlan = {
+        auditoriums: parsed.auditoriums.filter(a => !conference.getAuditorium(a.id)),
+        talks: [],
+    };
+
+    const scheduledTalkIds = new Set<string>();
+    for (const auditorium of parsed.auditoriums) {
+        const talks: ITalk[] = [];
+        for (const dayTalks of Object.values(auditorium.talksByDate)) talks.push(...dayTalks);
+        for (const talk of talks) {
+            if (scheduledTalkIds.has(talk.id)) continue;
+            scheduledTalkIds.add(talk.id);
+
+            const existingTalk = conference.getTalk(talk.id);
+            if (!existingTalk) {
+                plan.talks.push({
+                    action: TalkSyncAction.Create,
+                    talkId: talk.id,
+                    title: talk.title,
+                    auditoriumId: auditorium.id,
+                    talk: talk,
+                    changes: [`added to ${auditorium.id}`],
+                });
+                continue;
+            }
+
+            const definition = await existingTalk.getDefinition();
+            const currentAuditoriumId = await existingTalk.getAuditoriumId();
+            const changes: string[] = [];
+            if (definition.cancelled) {
+                changes.push("restored to the schedule");
+            }
+            if (currentAuditoriumId !== auditorium.id) {
+                changes.push(`moved from ${currentAuditoriumId} to ${auditorium.id}`);
+            }
+            if (definition.startTime !== talk.startTime || definition.endTime !== talk.endTime) {
+                changes.push(`rescheduled from ${formatTime(definition.startTime)} to ${formatTime(talk.startTime)}`);
+            }
+            if (definition.title !== talk.title) {
+                changes.push(`renamed from "${definition.title}"`);
+            }
+            if ((definition.subtitle || "") !== (talk.subtitle || "")) {
+                changes.push("subtitle changed");
+            }
+            if ((definition.track || "") !== (talk.track || "")) {
+                changes.push(`track changed to ${talk.track || "none"}`);
+            }
+            if (definition.slug !== talk.slug || definition.dateTs !== talk.dateTs) {
+                changes.push("details changed");
+            }
+            if (changes.length === 0) continue;
+
+            plan.talks.push({
+                action: TalkSyncAction.Update,
+                talkId: talk.id,
+                title: talk.title,
+                auditoriumId: auditorium.id,
+                talk: talk,
+                changes: changes,
+            });
+        }
+    }
+
+    for (const existingTalk of conference.storedTalks) {
+        const definition = await existingTalk.getDefinition();
+        if (scheduledTalkIds.has(definition.id) || definition.cancelled) continue;
+        plan.talks.push({
+            action: TalkSyncAction.Cancel,
+            talkId: definition.id,
+            title: definition.title,
+            auditoriumId: await existingTalk.getAuditoriumId(),
+            changes: ["removed from the schedule"],
+        });
+    }
+
+    return plan;
+}
+
+/**
+ * Applies a plan made by `planScheduleSync` to the conference's rooms. Talks which fail to
+ * update are logged and skipped.
+ * @param conference The conference.
+ * @param plan The changes to make.
+ * @returns The changes which could not be made.
+ */
+export async function applyScheduleSync(conference: Conference, plan: IScheduleSyncPlan): Promise<ITalkSyncFailure[]> {
+    for (const auditorium of plan.auditoriums) {
+        await conference.createAuditorium(auditorium);
+    }
+
+    const failures: ITalkSyncFailure[] = [];
+    for (const talkSync of plan.talks) {
+        try {
+            switch (talkSync.action) {
+                case TalkSyncAction.Create:
+                    await conference.createTalk(talkSync.talk, conference.getAuditorium(talkSync.auditoriumId));
+                    break;
+                case TalkSyncAction.Update:
+                    await conference.updateTalk(talkSync.talk, conference.getAuditorium(talkSync.auditoriumId));
+                    break;
+                case TalkSyncAction.Cancel:
+                    await conference.cancelTalk(talkSync.talkId);
+                    break;
+            }
+        } catch (error) {
+            const message = error?.message ?? error?.body?.error ?? String(error);
+            failures.push({ talkSync, error: message });
+            await logMessage(LogLevel.ERROR, "ScheduleSync", `Failed to ${talkSync.action} talk ${talkSync.talkId}: ${message}`);
+        }
+    }
+    return failures;
+}
+
+function renderTalkSync(talkSync: ITalkSync): string {
+    return `${talkSync.action}: <b>${htmlEscape(talkSync.title)}</b> (<code>${htmlEscape(talkSync.talkId)}</code>) - ${htmlEscape(talkSync.changes.join(", "))}`;
+}
+
+/**
+ * Renders a summary of a sync plan for the management room.
+ * @param plan The changes made, or to be made.
+ * @param isPreview Whether the changes have not been applied.
+ * @param failures The changes which could not be made, when the plan has been applied.
+ * @returns The HTML summary.
+ */
+export function renderScheduleSyncPlan(plan: IScheduleSyncPlan, isPreview: boolean, failures: ITalkSyncFailure[] = []): string {
+    if (plan.auditoriums.length === 0 && plan.talks.length === 0) {
+        return "<h4>Schedule sync</h4><p>The rooms already match the schedule.</p>";
+    }
+
+    const talkSyncs = plan.talks.filter(t => !failures.some(f => f.talkSync === t));
+    let html = `<h4>Schedule sync${isPreview ? " (preview)" : ""}</h4>`;
+    if (plan.auditoriums.length > 0 || talkSyncs.length > 0) {
+        html += isPreview
+            ? "<p>Nothing has been changed. Run <code>!conference build sync</code> to apply these changes:</p>"
+            : "<p>The following changes have been applied:</p>";
+        html += "<ul>";
+        for (const auditorium of plan.auditoriums) {
+            html += `<li>New auditorium <b>${htmlEscape(auditorium.name)}</b> (<code>${htmlEscape(auditorium.id)}</code>)</li>`;
+        }
+        for (const talkSync of talkSyncs) {
+            html += `<li>${renderTalkSync(talkSync)}</li>`;
+        }
+        html += "</ul>";
+    }
+    if (failures.length > 0) {
+        html += "<p>The following changes could not be made. Please check the logs and try again:</p><ul>";
+        for (const failure of failures) {
+            html += `<li>${renderTalkSync(failure.talkSync)}<br />Error: ${htmlEscape(failure.error)}</li>`;
+        }
+        html += "</ul>";
+    }
+    return html;
+}
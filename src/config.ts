@@ -18,10 +18,14 @@ import * as config from "config";
 import { MatrixClient } from "matrix-bot-sdk";
 import { Conference } from "./Conference";
 import { IRCBridge, IRCBridgeOpts } from "./IRCBridge";
-import { Scheduler } from "./Scheduler";
+import { ITimelineTask, Scheduler } from "./Scheduler";
 import { CheckInMap } from "./CheckInMap";
+import { CheckinAlerts } from "./CheckinAlerts";
+import { Scoreboard } from "./Scoreboard";
+import { QAArchive } from "./QAArchive";
+import { Health } from "./Health";
 
-export type AvailableBackends = "pentabarf";
+export type AvailableBackends = "pentabarf" | "pretalx" | "file";
 
 interface IConfig {
     homeserverUrl: string;
@@ -50,14 +54,52 @@ interface IConfig {
         port: number;
         publicBaseUrl: string;
         additionalAssetsPath: string;
+        managementToken?: string;
+        openIdHomeservers?: string[];
+        trustProxy?: boolean | string | string[];
+        api?: {
+            corsOrigins?: string[];
+            cacheSeconds?: number;
+        };
+        widgetAuth?: {
+            enabled?: boolean;
+            requireLoginToMakeHybrid?: boolean;
+            insecureLocalTokens?: { [token: string]: string }; // user ID by OpenID token, development and testing only
+        };
     };
     conference: {
         id: string;
         name: string;
         backendType: AvailableBackends;
         pentabarfDefinition?: string;
+        pretalxDefinition?: string;
+        pretalxQaMinutes?: number;
+        pretalxPeopleFile?: string;
+        scheduleFile?: string;
         timezone: string;
         lookaheadMinutes: number;
+        timeline?: ITimelineTask[];
+        interestTimeline?: ITimelineTask[];
+        messages?: {
+            templatesPath?: string;
+            locale?: string;
+            auditoriumLocales?: {
+                [auditoriumId: string]: string;
+            };
+        };
+        scoreboard?: {
+            votes?: {
+                [reaction: string]: number;
+            };
+            botUsers?: string[];
+            weights?: {
+                bots?: number;
+                selfVotes?: number;
+                lateJoiners?: number;
+            };
+            maxOpenQuestionsPerUser?: number;
+            rollUpReplyVotes?: boolean;
+        };
         supportRooms: {
             speakers: string;
             coordinators: string;
@@ -110,6 +152,10 @@ interface IConfig {
         scheduler: Scheduler;
         ircBridge: IRCBridge;
         checkins: CheckInMap;
+        checkinAlerts: CheckinAlerts;
+        scoreboard: Scoreboard;
+        qaArchive: QAArchive;
+        health: Health;
     };
 }
 
@@ -0,0 +1,289 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as express from "express";
+import { NextFunction, Request, Response } from "express";
+import { LogLevel, LogService } from "matrix-bot-sdk";
+import config from "./config";
+import { logMessage } from "./LogProxy";
+import { IOpenIdCredentials, OpenIdSessions, verifyOpenIdToken } from "./openid";
+import { getStartTime, sortTasks } from "./Scheduler";
+import { CachedMessage } from "./Scoreboard";
+import { ITalkCheckinStatus } from "./CheckInMap";
+import { getAttendance, IAttendance } from "./attendance";
+import { doAuditoriumResolveAction, doInterestResolveAction } from "./commands/actions/people";
+import { InviteCommand } from "./commands/InviteCommand";
+import { rateLimit } from "./rateLimit";
+
+// How long organisers stay logged in to the dashboard.
+const SESSION_LIFETIME_MS = 8 * 60 * 60 * 1000;
+
+// How often each client can try to log in. Each attempt asks a homeserver about an OpenID token.
+const LOGIN_RATE_LIMIT = 10;
+const LOGIN_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// How many upcoming tasks and top questions to show.
+const MAX_TASKS = 50;
+const MAX_TOP_QUESTIONS = 3;
+
+export interface IDashboardRoom {
+    id: string; // the auditorium or interest ID
+    name: string;
+    kind: "auditorium" | "interest";
+    roomId: string;
+    running: boolean; // whether the scheduler is running the room's schedule
+    paused: boolean;
+}
+
+export interface IDashboardTask {
+    id: string;
+    name: string;
+    talkId: string;
+    auditoriumId: string;
+    startTime: number; // ms timestamp, utc
+}
+
+export interface IDashboardScoreboard {
+    roomId: string;
+    auditoriumId?: string; // not set for hand-picked rooms
+    questions: number;
+    votes: number;
+    top: CachedMessage[]; // the highest scoring questions which aren't hidden
+}
+
+export interface IDashboardState {
+    userId: string;
+    rooms: IDashboardRoom[];
+    tasks: IDashboardTask[];
+    checkins: ITalkCheckinStatus[];
+    scoreboards: IDashboardScoreboard[];
+}
+
+const sessions = new OpenIdSessions(SESSION_LIFETIME_MS);
+
+/**
+ * Starts a session for someone who has proved who they are with an OpenID token. Only members of
+ * the management room can log in.
+ * @param req The request, with the OpenID credentials as its body.
+ * @param res The response, with the session token and user ID.
+ */
+async function login(req: Request, res: Response) {
+    let userId: string;
+    try {
+        userId = await verifyOpenIdToken(req.body as IOpenIdCredentials);
+    } catch (error) {
+        LogService.warn("dashboard", "Rejected OpenID token:", error);
+        return res.status(401).send({ error: "Invalid OpenID token" });
+    }
+
+    const members = await config.RUNTIME.client.getJoinedRoomMembers(config.managementRoom);
+    if (!members.includes(userId)) {
+        LogService.warn("dashboard", `Refused to log in ${userId}, who is not in the management room`);
+        return res.status(403).send({ error: "Only members of the management room can use the dashboard" });
+    }
+
+    const token = sessions.create(userId);
+    LogService.info("dashboard", `${userId} logged in to the dashboard`);
+    return res.send({ token, userId });
+}
+
+/**
+ * Finds who a dashboard session belongs to.
+ * @param token The session token.
+ * @returns The user ID of the session, or `undefined` if the session doesn't exist or has expired.
+ */
+export function getSessionUserId(token: string | undefined): string | undefined {
+    return sessions.getUserId(token);
+}
+
+/**
+ * Rejects requests without a valid session token. The user ID of the session is put in
+ * `res.locals.userId`.
+ * @param req The request.
+ * @param res The response.
+ * @param next The next handler.
+ */
+function requireSession(req: Request, res: Response, next: NextFunction) {
+    const token = /^Bearer (.+)$/.exec(req.header("Authorization") ?? "")?.[1];
+    const userId = getSessionUserId(token);
+    if (!userId) {
+        return res.status(401).send({ error: "Not logged in" });
+    }
+    res.locals.userId = userId;
+    next();
+}
+
+/**
+ * Wraps a request handler so that errors are logged and reported as a 500.
+ * @param fn The request handler.
+ * @returns The wrapped request handler.
+ */
+function handle(fn: (req: Request, res: Response) => Promise<unknown>) {
+    return async (req: Request, res: Response) => {
+        try {
+            await fn(req, res);
+        } catch (error) {
+            LogService.error("dashboard", `Error handling ${req.path}:`, error);
+            if (!res.headersSent) res.sendStatus(500);
+        }
+    };
+}
+
+async function getRooms(): Promise<IDashboardRoom[]> {
+    const conference = config.RUNTIME.conference;
+    const scheduler = config.RUNTIME.scheduler;
+    const rooms: IDashboardRoom[] = [];
+    for (const auditorium of conference.storedAuditoriums) {
+        const id = await auditorium.getId();
+        rooms.push({
+            id,
+            name: await auditorium.getName(),
+            kind: "auditorium",
+            roomId: auditorium.roomId,
+            running: scheduler.isWatchingAuditorium(id),
+            paused: scheduler.isAuditoriumPaused(id),
+        });
+    }
+    for (const interestRoom of conference.storedInterestRooms) {
+        const id = await interestRoom.getId();
+        rooms.push({
+            id,
+            name: await interestRoom.getName(),
+            kind: "interest",
+            roomId: interestRoom.roomId,
+            running: scheduler.isWatchingAuditorium(id),
+            paused: scheduler.isAuditoriumPaused(id),
+        });
+    }
+    return rooms;
+}
+
+function getTasks(): IDashboardTask[] {
+    const tasks = sortTasks(config.RUNTIME.scheduler.inspect()).slice(0, MAX_TASKS);
+    return tasks.map(t => ({
+        id: t.id,
+        name: t.timelineTask.name,
+        talkId: t.talk.event_id,
+        auditoriumId: t.talk.conference_room,
+        startTime: getStartTime(t),
+    }));
+}
+
+function getScoreboards(rooms: IDashboardRoom[]): IDashboardScoreboard[] {
+    const scoreboard = config.RUNTIME.scoreboard;
+    return Object.entries(scoreboard.getStats()).map(([roomId, stats]) => ({
+        roomId,
+        auditoriumId: rooms.find(r => r.roomId === roomId)?.id,
+        questions: stats.questions,
+        votes: stats.votes,
+        top: (scoreboard.getScoreboard(roomId)?.ordered ?? []).filter(q => !q.hidden).slice(0, MAX_TOP_QUESTIONS),
+    }));
+}
+
+async function getState(userId: string): Promise<IDashboardState> {
+    const rooms = await getRooms();
+    return {
+        userId,
+        rooms,
+        tasks: getTasks(),
+        checkins: await config.RUNTIME.checkins.getUpcomingStatus(),
+        scoreboards: getScoreboards(rooms),
+    };
+}
+
+/**
+ * Re-sends invites to the people who should be in an auditorium or interest room and its
+ * associated rooms. Runs in the background, since it can take a while.
+ * @param id The auditorium or interest ID.
+ * @param userId The person who asked for the invites.
+ */
+async function resendInvites(id: string, userId: string) {
+    const conference = config.RUNTIME.conference;
+    const client = config.RUNTIME.client;
+    const auditorium = conference.getAuditorium(id);
+    const interestRoom = conference.getInterestRoom(id);
+    try {
+        if (auditorium) {
+            await doAuditoriumResolveAction(InviteCommand.ensureInvited, client, auditorium, conference);
+        } else {
+            await doInterestResolveAction(InviteCommand.ensureInvited, client, interestRoom, conference);
+        }
+        await logMessage(LogLevel.INFO, "dashboard", `Finished re-sending invites for ${id}, as asked by ${userId}`);
+    } catch (error) {
+        LogService.error("dashboard", error);
+        await logMessage(LogLevel.ERROR, "dashboard", `Error re-sending invites for ${id}: ${error?.message || 'unknown error'}`);
+    }
+}
+
+/**
+ * Creates the router for the organisers' dashboard, which shows what the bot is doing and offers
+ * some of the safer management room commands. Organisers log in with an OpenID token from their
+ * homeserver, which the dashboard widget asks their client for.
+ * @returns The router, to be mounted at `/dashboard/api`.
+ */
+export function createDashboardRouter(): express.Router {
+    const router = express.Router();
+    router.use(express.json());
+    router.post('/login', rateLimit("dashboard login", LOGIN_RATE_LIMIT, LOGIN_RATE_LIMIT_WINDOW_MS), handle(login));
+    router.use(requireSession);
+
+    router.get('/state', handle(async (req, res) => {
+        res.set("Cache-Control", "no-store");
+        res.send(await getState(res.locals.userId));
+    }));
+    router.get('/attendance', handle(async (req, res) => {
+        const attendance: IAttendance[] = await getAttendance(config.RUNTIME.conference, config.RUNTIME.client);
+        res.set("Cache-Control", "no-store");
+        res.send(attendance);
+    }));
+
+    router.post('/rooms/:id/:action', handle(async (req, res) => {
+        const { id, action } = req.params;
+        const userId = res.locals.userId;
+        const conference = config.RUNTIME.conference;
+        const scheduler = config.RUNTIME.scheduler;
+        if (!conference.getAuditorium(id) && !conference.getInterestRoom(id)) {
+            return res.status(404).send({ error: "Unknown auditorium or interest room" });
+        }
+
+        switch (action) {
+            case "run":
+                if (!scheduler.isWatchingAuditorium(id)) await scheduler.addAuditorium(id);
+                break;
+            case "stop":
+                await scheduler.removeAuditorium(id);
+                break;
+            case "invite":
+                resendInvites(id, userId);
+                break;
+            default:
+                return res.status(404).send({ error: "Unknown action" });
+        }
+        await logMessage(LogLevel.INFO, "dashboard", `${userId} used the dashboard to ${action} ${id}`);
+        return res.status(action === "invite" ? 202 : 200).send({});
+    }));
+    router.post('/tasks/:taskId/skip', handle(async (req, res) => {
+        const taskId = req.params['taskId'];
+        try {
+            await config.RUNTIME.scheduler.skip(taskId);
+        } catch (error) {
+            return res.status(404).send({ error: error?.message });
+        }
+        await logMessage(LogLevel.INFO, "dashboard", `${res.locals.userId} used the dashboard to skip task ${taskId}`);
+        return res.send({});
+    }));
+    return router;
+}
@@ -14,6 +14,8 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
+import config from "../config";
+
 export interface IRawDbTalk {
     event_id: string; // penta ID
     conference_room: string;
@@ -41,3 +43,31 @@ export interface IDbTalk extends IRawDbTalk {
      */
     livestream_end_datetime: number; // ms timestamp, utc
 }
+
+/**
+ * Derives the livestream times of a talk from its raw schedule, taking the configured pre- and
+ * post-roll buffers into account.
+ * @param talk The raw talk record.
+ * @returns The talk record with its livestream times populated.
+ */
+export function postprocessDbTalk(talk: IRawDbTalk): IDbTalk {
+    const qaStartDatetime = talk.qa_start_datetime + config.conference.database.schedulePreBufferSeconds * 1000;
+    let livestreamStartDatetime: number;
+    if (talk.prerecorded) {
+        // For prerecorded talks, a preroll is shown, followed by the talk recording, then an
+        // interroll, then live Q&A.
+        livestreamStartDatetime = qaStartDatetime;
+    } else {
+        // For live talks, both the preroll and interroll are shown, followed by the live talk.
+        livestreamStartDatetime = talk.start_datetime + config.conference.database.schedulePreBufferSeconds * 1000;
+    }
+    const livestreamEndDatetime = talk.end_datetime - config.conference.database.schedulePostBufferSeconds * 1000;
+
+    return {
+        ...talk,
+
+        qa_start_datetime: qaStartDatetime,
+        livestream_start_datetime: livestreamStartDatetime,
+        livestream_end_datetime: livestreamEndDatetime,
+    };
+}
@@ -0,0 +1,259 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { LogService } from "matrix-bot-sdk";
+import AwaitLock from "await-lock";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import config, { AvailableBackends } from "../config";
+import { IDbPerson } from "./DbPerson";
+import { IDbTalk } from "./DbTalk";
+import { DBBackend } from "./backendDb";
+import { writeFileAtomically } from "../utils";
+
+/**
+ * A delay to an auditorium's schedule, made at runtime.
+ */
+export interface IScheduleDelay {
+    auditoriumId: string;
+
+    /**
+     * Talks which were originally scheduled to start at or after this time are delayed, as a Unix
+     * timestamp in milliseconds.
+     */
+    fromTime: number;
+
+    minutes: number; // negative to bring talks forward
+    createdAt: number; // ms timestamp, utc
+}
+
+function getDelaysPath(): string {
+    return path.join(config.dataPath, "delays.json");
+}
+
+/**
+ * Wraps a backend so that talk times include the delays which have been made at runtime. Delays
+ * are kept as an overlay on top of the schedule rather than written back to it, and persist
+ * across restarts.
+ */
+export class DelayOverlayDb implements DBBackend {
+    private delays: IScheduleDelay[] = [];
+    private lock = new AwaitLock();
+    private readonly loaded: Promise<void>;
+    private changeListeners: (() => void)[] = [];
+
+    constructor(private readonly backend: DBBackend) {
+        this.loaded = this.load();
+    }
+
+    private async load() {
+        await this.lock.acquireAsync();
+        try {
+            const str = await fs.readFile(getDelaysPath(), "utf-8");
+            this.delays = JSON.parse(str || "[]");
+        } catch (error) {
+            if (error?.code !== "ENOENT") LogService.error("DelayOverlayDb", error);
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    private async persist() {
+        await writeFileAtomically(getDelaysPath(), JSON.stringify(this.delays));
+    }
+
+    /**
+     * Gets the delays which have been made.
+     * @param auditoriumId The auditorium to get delays for, or `undefined` for all auditoriums.
+     * @returns The delays, in the order they were made.
+     */
+    public async getDelays(auditoriumId?: string): Promise<IScheduleDelay[]> {
+        await this.loaded;
+        return this.delays.filter(d => auditoriumId === undefined || d.auditoriumId === auditoriumId);
+    }
+
+    /**
+     * Delays the remainder of an auditorium's schedule. Delays add to any made previously.
+     * @param auditoriumId The auditorium.
+     * @param fromTime The original start time of the first talk to delay, as a Unix timestamp in
+     * milliseconds.
+     * @param minutes The number of minutes to delay talks by. Negative to bring talks forward.
+     */
+    public async addDelay(auditoriumId: string, fromTime: number, minutes: number) {
+        await this.loaded;
+        await this.lock.acquireAsync();
+        try {
+            this.delays.push({ auditoriumId, fromTime, minutes, createdAt: Date.now() });
+            await this.persist();
+        } finally {
+            this.lock.release();
+        }
+        this.notifyChanged();
+    }
+
+    /**
+     * Removes delays, returning talks to their scheduled times.
+     * @param auditoriumId The auditorium to clear delays for, or `undefined` for all auditoriums.
+     * @returns The number of delays removed.
+     */
+    public async clearDelays(auditoriumId?: string): Promise<number> {
+        await this.loaded;
+        let removed: number;
+        await this.lock.acquireAsync();
+        try {
+            const remaining = this.delays.filter(d => auditoriumId !== undefined && d.auditoriumId !== auditoriumId);
+            removed = this.delays.length - remaining.length;
+            this.delays = remaining;
+            await this.persist();
+        } finally {
+            this.lock.release();
+        }
+        this.notifyChanged();
+        return removed;
+    }
+
+    /**
+     * Registers a function to be called whenever delays are made or cleared, or the underlying
+     * schedule changes.
+     * @param listener The function to call.
+     */
+    public onScheduleChanged(listener: () => void) {
+        this.changeListeners.push(listener);
+        this.backend.onScheduleChanged?.(listener);
+    }
+
+    private notifyChanged() {
+        for (const listener of this.changeListeners) listener();
+    }
+
+    /**
+     * Gets the delay to a talk, as made at runtime.
+     * @param talk The talk, with its scheduled times.
+     * @returns The delay, in milliseconds.
+     */
+    private getDelayMs(talk: IDbTalk): number {
+        let minutes = 0;
+        for (const delay of this.delays) {
+            if (delay.auditoriumId !== talk.conference_room) continue;
+            if (talk.start_datetime < delay.fromTime) continue;
+            minutes += delay.minutes;
+        }
+        return minutes * 60 * 1000;
+    }
+
+    private applyDelay(talk: IDbTalk): IDbTalk {
+        const delayMs = this.getDelayMs(talk);
+        if (delayMs === 0) return talk;
+        return {
+            ...talk,
+            start_datetime: talk.start_datetime + delayMs,
+            end_datetime: talk.end_datetime + delayMs,
+            qa_start_datetime: talk.qa_start_datetime + delayMs,
+            livestream_start_datetime: talk.livestream_start_datetime + delayMs,
+            livestream_end_datetime: talk.livestream_end_datetime + delayMs,
+        };
+    }
+
+    public getSystemName(): AvailableBackends {
+        return this.backend.getSystemName();
+    }
+
+    public async ping(): Promise<void> {
+        return this.backend.ping();
+    }
+
+    public async findPeopleWithId(personId: string): Promise<IDbPerson[]> {
+        return this.backend.findPeopleWithId(personId);
+    }
+
+    public async findAllPeopleForAuditorium(auditoriumId: string): Promise<IDbPerson[]> {
+        return this.backend.findAllPeopleForAuditorium(auditoriumId);
+    }
+
+    public async findAllPeopleForTalk(talkId: string): Promise<IDbPerson[]> {
+        return this.backend.findAllPeopleForTalk(talkId);
+    }
+
+    public async findAllPeopleWithRemark(remark: string): Promise<IDbPerson[]> {
+        return this.backend.findAllPeopleWithRemark(remark);
+    }
+
+    public async getUpcomingTalkStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(
+            (inNext, before) => this.backend.getUpcomingTalkStarts(inNext, before),
+            t => t.start_datetime,
+            inNextMinutes, minBefore);
+    }
+
+    public async getUpcomingQAStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(
+            (inNext, before) => this.backend.getUpcomingQAStarts(inNext, before),
+            t => t.qa_start_datetime,
+            inNextMinutes, minBefore);
+    }
+
+    public async getUpcomingTalkEnds(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(
+            (inNext, before) => this.backend.getUpcomingTalkEnds(inNext, before),
+            t => t.end_datetime,
+            inNextMinutes, minBefore);
+    }
+
+    /**
+     * Gets the record for a talk.
+     * @param talkId The talk ID.
+     * @returns The record for the talk, if it exists; `undefined` otherwise.
+     */
+    public async getTalk(talkId: string): Promise<IDbTalk | undefined> {
+        await this.loaded;
+        const talk = await this.backend.getTalk(talkId);
+        return talk ? this.applyDelay(talk) : undefined;
+    }
+
+    /**
+     * Gets the record for a talk, ignoring any delays.
+     * @param talkId The talk ID.
+     * @returns The record for the talk, if it exists; `undefined` otherwise.
+     */
+    public async getScheduledTalk(talkId: string): Promise<IDbTalk | undefined> {
+        return this.backend.getTalk(talkId);
+    }
+
+    private async getTalksWithin(
+        query: (inNextMinutes: number, minBefore: number) => Promise<IDbTalk[]>,
+        timeFn: (talk: IDbTalk) => number,
+        inNextMinutes: number,
+        minBefore: number,
+    ): Promise<IDbTalk[]> {
+        await this.loaded;
+        if (this.delays.length === 0) return query(inNextMinutes, minBefore);
+
+        // Widen the window so that it covers every talk which may be delayed into it, then
+        // narrow it back down using the delayed times.
+        let maxDelay = 0;
+        let maxAdvance = 0;
+        for (const delay of this.delays) {
+            if (delay.minutes > 0) maxDelay += delay.minutes;
+            else maxAdvance -= delay.minutes;
+        }
+        const talks = await query(inNextMinutes + maxAdvance, minBefore + maxDelay);
+
+        const now = Date.now();
+        const from = now - minBefore * 60 * 1000;
+        const to = now + inNextMinutes * 60 * 1000;
+        return talks.map(t => this.applyDelay(t)).filter(t => timeFn(t) >= from && timeFn(t) <= to);
+    }
+}
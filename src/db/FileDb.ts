@@ -0,0 +1,289 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import config, { AvailableBackends } from "../config";
+import { IDbPerson, Role } from "./DbPerson";
+import { LogService, UserID } from "matrix-bot-sdk";
+import { IDbTalk, postprocessDbTalk } from "./DbTalk";
+import { DBBackend } from "./backendDb";
+import { objectFastClone } from "../utils";
+import AwaitLock from "await-lock";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as yaml from "js-yaml";
+import { DateTime } from "luxon";
+
+/**
+ * A talk in the schedule file. The fields mirror the columns of the Pentabarf schedule table.
+ */
+export interface IScheduleFileTalk {
+    event_id: string;
+    conference_room: string;
+    title?: string;
+    subtitle?: string;
+    slug?: string;
+    track?: string;
+    start_datetime: string; // ISO 8601, in the conference timezone unless an offset is given
+    duration?: number | string; // minutes, or HH:MM[:SS]
+    presentation_length?: number | string; // minutes, or HH:MM[:SS]
+    prerecorded?: boolean;
+}
+
+/**
+ * A person in the schedule file. The fields mirror the columns of the Pentabarf people table.
+ */
+export interface IScheduleFilePerson {
+    event_id?: string;
+    person_id: string;
+    event_role: Role;
+    name: string;
+    email?: string;
+    matrix_id?: string;
+    conference_room?: string;
+    remark?: string;
+}
+
+export interface IScheduleFile {
+    title?: string;
+    rooms?: string[];
+    talks?: IScheduleFileTalk[];
+    people?: IScheduleFilePerson[];
+}
+
+// How long to wait for writes to settle before reloading a changed schedule file.
+const RELOAD_DELAY_MS = 1000;
+
+export function getScheduleFilePath(): string {
+    return path.join(config.dataPath, config.conference.scheduleFile || "schedule.yaml");
+}
+
+/**
+ * Reads and parses the schedule file. Both YAML and JSON are accepted.
+ * @param filePath The path of the schedule file.
+ * @returns The parsed schedule file.
+ */
+export async function readScheduleFile(filePath: string): Promise<IScheduleFile> {
+    const str = await fs.promises.readFile(filePath, "utf-8");
+    return parseScheduleFile(str);
+}
+
+export function parseScheduleFile(str: string): IScheduleFile {
+    // Timestamps are kept as strings so that they can be interpreted in the conference timezone
+    return (yaml.load(str, { schema: yaml.JSON_SCHEMA }) || {}) as IScheduleFile;
+}
+
+/**
+ * Parses a duration from the schedule file.
+ * @param val The duration, either as a number of minutes or in HH:MM[:SS] format.
+ * @returns The duration, in seconds.
+ */
+export function parseScheduleFileDuration(val: number | string | undefined): number {
+    if (val === undefined || val === null) return 0;
+    if (typeof val === "number") return val * 60;
+    const parts = val.split(':').map(p => Number(p));
+    return (parts[0] || 0) * 60 * 60 + (parts[1] || 0) * 60 + (parts[2] || 0);
+}
+
+/**
+ * Parses a time from the schedule file.
+ * @param val The time, in ISO 8601 format. The conference timezone is assumed unless the time
+ * has an offset.
+ * @param field A description of the field the time is from, for the error message.
+ * @returns The time, as a Unix timestamp in milliseconds.
+ * @throws {Error} The time is invalid.
+ */
+export function parseScheduleFileTime(val: string, field: string): number {
+    const time = DateTime.fromISO(String(val), { zone: config.conference.timezone });
+    if (!time.isValid) {
+        throw new Error(`Invalid ${field} in the schedule file: ${val} (${time.invalidExplanation || time.invalidReason})`);
+    }
+    return time.toMillis();
+}
+
+/**
+ * A backend which reads the schedule and people from a YAML or JSON file, for events which
+ * don't want to run a database. The file is reloaded whenever it changes.
+ */
+export class FileDb implements DBBackend {
+    private readonly filePath = getScheduleFilePath();
+    private talks: IDbTalk[] = [];
+    private people: IDbPerson[] = [];
+    private isLoaded = false;
+    private reloadTimer: NodeJS.Timeout;
+    private lock = new AwaitLock();
+    private changeListeners: (() => void)[] = [];
+
+    constructor() {
+        // Watch the directory rather than the file, since editors and deploys tend to replace the
+        // file with a new one, and the file might not exist yet
+        const fileName = path.basename(this.filePath);
+        try {
+            fs.watch(path.dirname(this.filePath), { persistent: false }, (eventType, changedName) => {
+                if (changedName && changedName.toString() !== fileName) return;
+                // Editors tend to write files in several steps, so wait for things to settle
+                clearTimeout(this.reloadTimer);
+                this.reloadTimer = setTimeout(() => {
+                    this.reload().catch(() => { /* already logged, and the next change will retry */ });
+                }, RELOAD_DELAY_MS);
+            });
+        } catch (error) {
+            LogService.warn("FileDb", `Cannot watch ${this.filePath} for changes:`, error);
+        }
+    }
+
+    public getSystemName(): AvailableBackends {
+        return "file";
+    }
+
+    private async ensureLoaded() {
+        if (this.isLoaded) return;
+        await this.reload();
+    }
+
+    private async reload() {
+        await this.lock.acquireAsync();
+        try {
+            const file = await readScheduleFile(this.filePath);
+            this.talks = (file.talks || []).filter(t => !!t.start_datetime).map(t => {
+                const startTime = parseScheduleFileTime(t.start_datetime, `start_datetime of talk ${t.event_id}`);
+                const duration = parseScheduleFileDuration(t.duration);
+                const presentationLength = parseScheduleFileDuration(t.presentation_length);
+                return postprocessDbTalk({
+                    event_id: String(t.event_id),
+                    conference_room: t.conference_room,
+                    start_datetime: startTime,
+                    duration_seconds: duration,
+                    presentation_length_seconds: presentationLength,
+                    end_datetime: startTime + duration * 1000,
+                    qa_start_datetime: startTime + presentationLength * 1000,
+                    prerecorded: !!t.prerecorded,
+                });
+            });
+            this.people = (file.people || []).map(p => {
+                const talk = this.talks.find(t => t.event_id === String(p.event_id));
+                return this.sanitizeRecord({
+                    event_id: p.event_id !== undefined ? String(p.event_id) : undefined,
+                    person_id: String(p.person_id),
+                    event_role: p.event_role,
+                    name: p.name,
+                    email: p.email,
+                    matrix_id: p.matrix_id,
+                    conference_room: p.conference_room || talk?.conference_room,
+                    remark: p.remark,
+                });
+            });
+            const wasLoaded = this.isLoaded;
+            this.isLoaded = true;
+            LogService.info("FileDb", `Loaded ${this.talks.length} talks and ${this.people.length} people from ${this.filePath}`);
+            if (wasLoaded) {
+                for (const listener of this.changeListeners) listener();
+            }
+        } catch (error) {
+            // Keep serving the previous copy of the schedule, if we have one
+            LogService.error("FileDb", `Failed to load ${this.filePath}:`, error);
+            if (!this.isLoaded) throw error;
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    /**
+     * Registers a function to be called whenever the schedule file is reloaded.
+     * @param listener The function to call.
+     */
+    public onScheduleChanged(listener: () => void) {
+        this.changeListeners.push(listener);
+    }
+
+    public async findPeopleWithId(personId: string): Promise<IDbPerson[]> {
+        await this.ensureLoaded();
+        return this.people.filter(p => p.person_id === personId).map(p => objectFastClone(p));
+    }
+
+    public async findAllPeopleForAuditorium(auditoriumId: string): Promise<IDbPerson[]> {
+        await this.ensureLoaded();
+        const people: IDbPerson[] = [];
+        for (const person of this.people.filter(p => p.conference_room === auditoriumId)) {
+            // Mirror the Pentabarf backend, which does not associate auditorium-wide people with
+            // any one talk.
+            if (people.some(p => p.person_id === person.person_id && p.event_role === person.event_role)) continue;
+            people.push({ ...person, event_id: "ignore" });
+        }
+        return people;
+    }
+
+    public async findAllPeopleForTalk(talkId: string): Promise<IDbPerson[]> {
+        await this.ensureLoaded();
+        return this.people.filter(p => p.event_id === talkId).map(p => objectFastClone(p));
+    }
+
+    public async findAllPeopleWithRemark(remark: string): Promise<IDbPerson[]> {
+        await this.ensureLoaded();
+        return this.people.filter(p => p.remark === remark).map(p => objectFastClone(p));
+    }
+
+    public async getUpcomingTalkStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.start_datetime, inNextMinutes, minBefore);
+    }
+
+    public async getUpcomingQAStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.qa_start_datetime, inNextMinutes, minBefore);
+    }
+
+    public async getUpcomingTalkEnds(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.end_datetime, inNextMinutes, minBefore);
+    }
+
+    /**
+     * Gets the record for a talk.
+     * @param talkId The talk ID.
+     * @returns The record for the talk, if it exists; `undefined` otherwise.
+     */
+    public async getTalk(talkId: string): Promise<IDbTalk | undefined> {
+        await this.ensureLoaded();
+        const talk = this.talks.find(t => t.event_id === talkId);
+        return talk ? objectFastClone(talk) : undefined;
+    }
+
+    /**
+     * Checks that the schedule file is loaded and can still be read, for health checks.
+     * @throws {Error} The schedule file can't be read.
+     */
+    public async ping(): Promise<void> {
+        await this.ensureLoaded();
+        await fs.promises.access(this.filePath, fs.constants.R_OK);
+    }
+
+    private async getTalksWithin(timeFn: (talk: IDbTalk) => number, inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        await this.ensureLoaded();
+        const now = Date.now();
+        const from = now - minBefore * 60 * 1000;
+        const to = now + inNextMinutes * 60 * 1000;
+        return this.talks.filter(t => timeFn(t) >= from && timeFn(t) <= to).map(t => objectFastClone(t));
+    }
+
+    private sanitizeRecord(person: IDbPerson): IDbPerson {
+        try {
+            if (person.matrix_id) {
+                person.matrix_id = new UserID(person.matrix_id).toString().trim();
+            }
+        } catch (error) {
+            LogService.warn("FileDb", "Invalid user ID: " + person.matrix_id, error);
+            person.matrix_id = undefined; // force clear
+        }
+        return person;
+    }
+}
@@ -0,0 +1,81 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { AvailableBackends } from "../config";
+import { IDbPerson } from "./DbPerson";
+import { IDbTalk } from "./DbTalk";
+import { DBBackend } from "./backendDb";
+import { dbQueryDuration } from "../metrics";
+
+/**
+ * Wraps a backend to record how long each query to it takes, for metrics.
+ */
+export class InstrumentedDb implements DBBackend {
+    constructor(private readonly backend: DBBackend) { }
+
+    private async time<T>(query: string, fn: () => Promise<T>): Promise<T> {
+        const end = dbQueryDuration.startTimer({ backend: this.backend.getSystemName(), query });
+        try {
+            return await fn();
+        } finally {
+            end();
+        }
+    }
+
+    public getSystemName(): AvailableBackends {
+        return this.backend.getSystemName();
+    }
+
+    public async findPeopleWithId(personId: string): Promise<IDbPerson[]> {
+        return this.time("findPeopleWithId", () => this.backend.findPeopleWithId(personId));
+    }
+
+    public async findAllPeopleForAuditorium(auditoriumId: string): Promise<IDbPerson[]> {
+        return this.time("findAllPeopleForAuditorium", () => this.backend.findAllPeopleForAuditorium(auditoriumId));
+    }
+
+    public async findAllPeopleForTalk(talkId: string): Promise<IDbPerson[]> {
+        return this.time("findAllPeopleForTalk", () => this.backend.findAllPeopleForTalk(talkId));
+    }
+
+    public async findAllPeopleWithRemark(remark: string): Promise<IDbPerson[]> {
+        return this.time("findAllPeopleWithRemark", () => this.backend.findAllPeopleWithRemark(remark));
+    }
+
+    public async getUpcomingTalkStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.time("getUpcomingTalkStarts", () => this.backend.getUpcomingTalkStarts(inNextMinutes, minBefore));
+    }
+
+    public async getUpcomingQAStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.time("getUpcomingQAStarts", () => this.backend.getUpcomingQAStarts(inNextMinutes, minBefore));
+    }
+
+    public async getUpcomingTalkEnds(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.time("getUpcomingTalkEnds", () => this.backend.getUpcomingTalkEnds(inNextMinutes, minBefore));
+    }
+
+    public async getTalk(talkId: string): Promise<IDbTalk | undefined> {
+        return this.time("getTalk", () => this.backend.getTalk(talkId));
+    }
+
+    public onScheduleChanged(listener: () => void) {
+        this.backend.onScheduleChanged?.(listener);
+    }
+
+    public async ping(): Promise<void> {
+        return this.time("ping", () => this.backend.ping());
+    }
+}
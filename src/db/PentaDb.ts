@@ -19,7 +19,7 @@ import config, { AvailableBackends } from "../config";
 import { IDbPerson } from "./DbPerson";
 import { LogService, UserID } from "matrix-bot-sdk";
 import { objectFastClone } from "../utils";
-import { IDbTalk, IRawDbTalk } from "./DbTalk";
+import { IDbTalk, IRawDbTalk, postprocessDbTalk } from "./DbTalk";
 import { DBBackend } from "./backendDb";
 
 const PEOPLE_SELECT = "SELECT event_id::text, person_id::text, event_role::text, name::text, email::text, matrix_id::text, conference_room::text, remark::text FROM " + config.conference.database.pentabarfTables.tblPeople;
@@ -107,7 +107,15 @@ export class PentaDb implements DBBackend {
         const result = await this.client.query(
             `${SCHEDULE_SELECT} WHERE event_id::text = $2`,
             [config.conference.timezone, talkId]);
-        return result.rowCount > 0 ? this.postprocessDbTalk(result.rows[0]) : undefined;
+        return result.rowCount > 0 ? postprocessDbTalk(result.rows[0]) : undefined;
+    }
+
+    /**
+     * Checks that the database can be queried, for health checks.
+     * @throws {Error} The database can't be queried.
+     */
+    public async ping(): Promise<void> {
+        await this.client.query("SELECT 1");
     }
 
     private async getTalksWithin(timeQuery: string, inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
@@ -118,30 +126,8 @@ export class PentaDb implements DBBackend {
         return this.postprocessDbTalks(result.rows);
     }
 
-    private postprocessDbTalk(talk: IRawDbTalk): IDbTalk {
-        const qaStartDatetime = talk.qa_start_datetime + config.conference.database.schedulePreBufferSeconds * 1000;
-        let livestreamStartDatetime: number;
-        if (talk.prerecorded) {
-            // For prerecorded talks, a preroll is shown, followed by the talk recording, then an
-            // interroll, then live Q&A.
-            livestreamStartDatetime = qaStartDatetime;
-        } else {
-            // For live talks, both the preroll and interroll are shown, followed by the live talk.
-            livestreamStartDatetime = talk.start_datetime + config.conference.database.schedulePreBufferSeconds * 1000;
-        }
-        const livestreamEndDatetime = talk.end_datetime - config.conference.database.schedulePostBufferSeconds * 1000;
-
-        return {
-            ...talk,
-
-            qa_start_datetime: qaStartDatetime,
-            livestream_start_datetime: livestreamStartDatetime,
-            livestream_end_datetime: livestreamEndDatetime,
-        };
-    }
-
     private postprocessDbTalks(rows: IRawDbTalk[]): IDbTalk[] {
-        return rows.map(talk => this.postprocessDbTalk(talk));
+        return rows.map(talk => postprocessDbTalk(talk));
     }
 
     private sanitizeRecords(rows: IDbPerson[]): IDbPerson[] {
@@ -0,0 +1,206 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import config, { AvailableBackends } from "../config";
+import { IDbPerson, Role } from "./DbPerson";
+import { LogService } from "matrix-bot-sdk";
+import { IDbTalk, postprocessDbTalk } from "./DbTalk";
+import { DBBackend } from "./backendDb";
+import AwaitLock from "await-lock";
+import fetch from "node-fetch";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import * as yaml from "js-yaml";
+import { getFrabEventStart, getFrabPersonId, IFrabSchedule, parseFrabDuration } from "../parsers/PretalxParser";
+
+// How often the schedule feed is re-fetched. Pretalx caches its exports, so there is little
+// point in fetching it more often than this.
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// How long the feed can fail to refresh before the backend is reported as unhealthy.
+const STALE_AFTER_MS = 3 * REFRESH_INTERVAL_MS;
+
+/**
+ * The contact details of people in the Pretalx feed, by speaker code, as read from the
+ * `pretalxPeopleFile`.
+ */
+export interface IPretalxPeopleMapping {
+    [speakerCode: string]: {
+        email?: string;
+        matrix_id?: string;
+    };
+}
+
+/**
+ * A backend which answers schedule queries from a Pretalx (frab-compatible JSON) schedule feed.
+ *
+ * The feed does not expose email addresses or Matrix IDs, so they are read from the optional
+ * `pretalxPeopleFile` instead. People who aren't listed there are only known by their Pretalx
+ * speaker codes until they are associated with a Matrix user.
+ */
+export class PretalxDb implements DBBackend {
+    private talks: IDbTalk[] = [];
+    private people: IDbPerson[] = [];
+    private lastFetched = 0;
+    private lock = new AwaitLock();
+
+    public getSystemName(): AvailableBackends {
+        return "pretalx";
+    }
+
+    private async refresh() {
+        if (Date.now() - this.lastFetched < REFRESH_INTERVAL_MS) return;
+
+        await this.lock.acquireAsync();
+        try {
+            // Someone else may have refreshed the feed while we were waiting for the lock
+            if (Date.now() - this.lastFetched < REFRESH_INTERVAL_MS) return;
+
+            const feed = await fetch(config.conference.pretalxDefinition).then(r => r.json()) as IFrabSchedule;
+            const mapping = await this.readPeopleMapping();
+            this.load(feed, mapping);
+            this.lastFetched = Date.now();
+        } catch (error) {
+            // Keep serving the previous copy of the schedule, if we have one
+            LogService.error("PretalxDb", "Failed to refresh schedule feed:", error);
+            if (!this.lastFetched) throw error;
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    private async readPeopleMapping(): Promise<IPretalxPeopleMapping> {
+        if (!config.conference.pretalxPeopleFile) return {};
+        const fname = path.join(config.dataPath, config.conference.pretalxPeopleFile);
+        return (yaml.load(await fs.readFile(fname, "utf-8")) || {}) as IPretalxPeopleMapping;
+    }
+
+    private load(feed: IFrabSchedule, mapping: IPretalxPeopleMapping) {
+        const talks: IDbTalk[] = [];
+        const people: IDbPerson[] = [];
+        for (const day of feed.schedule?.conference?.days || []) {
+            for (const [roomName, events] of Object.entries(day?.rooms || {})) {
+                for (const event of events || []) {
+                    const eventId = String(event.id);
+                    if (talks.some(t => t.event_id === eventId)) continue;
+
+                    const startTime = getFrabEventStart(event, day.date);
+                    const duration = parseFrabDuration(event.duration);
+                    // The feed doesn't say how much of a talk is Q&A, so the presentation runs
+                    // until the configured Q&A length before the end of the talk.
+                    const presentationLength = Math.max(0, duration - (config.conference.pretalxQaMinutes ?? 0) * 60 * 1000);
+                    talks.push(postprocessDbTalk({
+                        event_id: eventId,
+                        conference_room: roomName,
+                        start_datetime: startTime,
+                        duration_seconds: duration / 1000,
+                        presentation_length_seconds: presentationLength / 1000,
+                        end_datetime: startTime + duration,
+                        qa_start_datetime: startTime + presentationLength,
+                        // The feed has no notion of pre-recorded talks
+                        prerecorded: false,
+                    }));
+
+                    for (const person of event.persons || []) {
+                        const personId = getFrabPersonId(person);
+                        people.push({
+                            event_id: eventId,
+                            person_id: personId,
+                            event_role: Role.Speaker,
+                            name: person.public_name || person.name,
+                            email: mapping[personId]?.email,
+                            matrix_id: mapping[personId]?.matrix_id,
+                            conference_room: roomName,
+                            remark: undefined,
+                        });
+                    }
+                }
+            }
+        }
+        this.talks = talks;
+        this.people = people;
+    }
+
+    public async findPeopleWithId(personId: string): Promise<IDbPerson[]> {
+        await this.refresh();
+        return this.people.filter(p => p.person_id === personId).map(p => ({ ...p }));
+    }
+
+    public async findAllPeopleForAuditorium(auditoriumId: string): Promise<IDbPerson[]> {
+        await this.refresh();
+        const people: IDbPerson[] = [];
+        for (const person of this.people.filter(p => p.conference_room === auditoriumId)) {
+            // Mirror the Pentabarf backend, which does not associate auditorium-wide people with
+            // any one talk.
+            if (people.some(p => p.person_id === person.person_id && p.event_role === person.event_role)) continue;
+            people.push({ ...person, event_id: "ignore" });
+        }
+        return people;
+    }
+
+    public async findAllPeopleForTalk(talkId: string): Promise<IDbPerson[]> {
+        await this.refresh();
+        return this.people.filter(p => p.event_id === talkId).map(p => ({ ...p }));
+    }
+
+    public async findAllPeopleWithRemark(remark: string): Promise<IDbPerson[]> {
+        await this.refresh();
+        return this.people.filter(p => p.remark === remark).map(p => ({ ...p }));
+    }
+
+    public async getUpcomingTalkStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.start_datetime, inNextMinutes, minBefore);
+    }
+
+    public async getUpcomingQAStarts(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.qa_start_datetime, inNextMinutes, minBefore);
+    }
+
+    public async getUpcomingTalkEnds(inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        return this.getTalksWithin(t => t.end_datetime, inNextMinutes, minBefore);
+    }
+
+    /**
+     * Gets the record for a talk.
+     * @param talkId The talk ID.
+     * @returns The record for the talk, if it exists; `undefined` otherwise.
+     */
+    public async getTalk(talkId: string): Promise<IDbTalk | undefined> {
+        await this.refresh();
+        const talk = this.talks.find(t => t.event_id === talkId);
+        return talk ? { ...talk } : undefined;
+    }
+
+    /**
+     * Checks that the schedule feed has been fetched recently, for health checks. The feed is
+     * fetched again if it is due to be refreshed.
+     * @throws {Error} The feed has never been fetched, or has failed to refresh for some time.
+     */
+    public async ping(): Promise<void> {
+        await this.refresh();
+        if (Date.now() - this.lastFetched > STALE_AFTER_MS) {
+            throw new Error(`The schedule feed was last fetched ${Math.round((Date.now() - this.lastFetched) / 60_000)} minutes ago`);
+        }
+    }
+
+    private async getTalksWithin(timeFn: (talk: IDbTalk) => number, inNextMinutes: number, minBefore: number): Promise<IDbTalk[]> {
+        await this.refresh();
+        const now = Date.now();
+        const from = now - minBefore * 60 * 1000;
+        const to = now + inNextMinutes * 60 * 1000;
+        return this.talks.filter(t => timeFn(t) >= from && timeFn(t) <= to).map(t => ({ ...t }));
+    }
+}
@@ -3,6 +3,8 @@ import config, { AvailableBackends } from "../config";
 import { IDbPerson } from "./DbPerson";
 import { IDbTalk } from "./DbTalk";
 import { PentaDb } from "./PentaDb";
+import { PretalxDb } from "./PretalxDb";
+import { FileDb } from "./FileDb";
 
 export abstract class DBBackend {
     public abstract getSystemName(): AvailableBackends;
@@ -19,6 +21,17 @@ export abstract class DBBackend {
      * @returns The record for the talk, if it exists; `undefined` otherwise.
      */
     public abstract getTalk(talkId: string): Promise<IDbTalk | undefined>;
+    /**
+     * Registers a function to be called whenever the schedule changes, for backends which can
+     * tell when that happens.
+     * @param listener The function to call.
+     */
+    public onScheduleChanged?(listener: () => void): void;
+    /**
+     * Checks that the schedule can be read, for health checks.
+     * @throws {Error} The schedule can't be read.
+     */
+    public abstract ping(): Promise<void>;
 }
 
 export const getBackendDB = (): DBBackend => {
@@ -26,6 +39,12 @@ export const getBackendDB = (): DBBackend => {
         case "pentabarf": {
             return new PentaDb();
         }
+        case "pretalx": {
+            return new PretalxDb();
+        }
+        case "file": {
+            return new FileDb();
+        }
         default: {
             throw new Error("Unsupported backend type set in the config");
         }
@@ -18,7 +18,7 @@ limitations under the License.
 // TODO: Timezones!! (Europe-Brussels)
 // TODO: Start webserver
 
-import { LogLevel, LogService, MatrixClient, SimpleFsStorageProvider, UserID } from "matrix-bot-sdk";
+import { LogLevel, LogService, MatrixClient, UserID } from "matrix-bot-sdk";
 import * as path from "node:path";
 import config from "./config";
 import { ICommand } from "./commands/ICommand";
@@ -27,15 +27,21 @@ import { BuildCommand } from "./commands/BuildCommand";
 import { Conference } from "./Conference";
 import { InviteCommand } from "./commands/InviteCommand";
 import * as express from "express";
-import { Liquid } from "liquidjs";
 import {
     makeHybridWidget,
     renderAuditoriumWidget,
+    renderCheckins,
+    renderDashboardWidget,
     renderHealthz,
     renderHybridWidget,
+    renderMetrics,
+    renderNowNextWidget,
+    renderReadyz,
+    renderSchedulerHistory,
     renderScoreboard,
     renderScoreboardWidget,
     renderTalkWidget,
+    requireManagementToken,
     rtmpRedirect
 } from "./web";
 import { DevCommand } from "./commands/DevCommand";
@@ -54,7 +60,21 @@ import { CopyModeratorsCommand } from "./commands/CopyModeratorsCommand";
 import { AttendanceCommand } from "./commands/AttendanceCommand";
 import { ScheduleCommand } from "./commands/ScheduleCommand";
 import { CheckInMap } from "./CheckInMap";
+import { CheckinAlerts } from "./CheckinAlerts";
 import { FDMCommand } from "./commands/FDMCommand";
+import { DelayCommand } from "./commands/DelayCommand";
+import { CheckinsCommand } from "./commands/CheckinsCommand";
+import { QACommand } from "./commands/QACommand";
+import { ScoreboardCommand } from "./commands/ScoreboardCommand";
+import { QAArchive } from "./QAArchive";
+import { ScoreboardStream } from "./ScoreboardStream";
+import { getTemplateEngine, getWebTemplatesPath } from "./messages";
+import { createApiRouter } from "./api";
+import { Health, SyncTrackingStorageProvider } from "./Health";
+import { commandsFailed, commandsRun } from "./metrics";
+import { createDashboardRouter } from "./dashboard";
+import { limitWidgetLogins, loginToWidgets } from "./widgetAuth";
+import { checkOpenIdConfig } from "./openid";
 
 config.RUNTIME = {
     client: undefined,
@@ -62,6 +82,10 @@ config.RUNTIME = {
     scheduler: undefined,
     ircBridge: undefined,
     checkins: undefined,
+    checkinAlerts: undefined,
+    scoreboard: undefined,
+    qaArchive: undefined,
+    health: undefined,
 };
 
 process.on('SIGINT', () => {
@@ -74,7 +98,9 @@ LogService.setLogger(new CustomLogger());
 LogService.setLevel(LogLevel.DEBUG);
 LogService.info("index", "Bot starting...");
 
-const storage = new SimpleFsStorageProvider(path.join(config.dataPath, "bot.json"));
+checkOpenIdConfig();
+
+const storage = new SyncTrackingStorageProvider(path.join(config.dataPath, "bot.json"));
 const client = new MatrixClient(config.homeserverUrl, config.accessToken, storage);
 config.RUNTIME.client = client;
 client.impersonateUserId(config.userId);
@@ -83,6 +109,12 @@ const conference = new Conference(config.conference.id, client);
 config.RUNTIME.conference = conference;
 
 const scoreboard = new Scoreboard(conference, client);
+config.RUNTIME.scoreboard = scoreboard;
+
+const scoreboardStream = new ScoreboardStream(scoreboard);
+
+const qaArchive = new QAArchive(client, conference, scoreboard);
+config.RUNTIME.qaArchive = qaArchive;
 
 const scheduler = new Scheduler(client, conference, scoreboard);
 config.RUNTIME.scheduler = scheduler;
@@ -90,9 +122,15 @@ config.RUNTIME.scheduler = scheduler;
 const ircBridge = new IRCBridge(config.ircBridge, client);
 config.RUNTIME.ircBridge = ircBridge;
 
-const checkins = new CheckInMap(client);
+const health = new Health(storage, conference, scheduler, ircBridge);
+config.RUNTIME.health = health;
+
+const checkins = new CheckInMap(client, conference);
 config.RUNTIME.checkins = checkins;
 
+const checkinAlerts = new CheckinAlerts(client);
+config.RUNTIME.checkinAlerts = checkinAlerts;
+
 let localpart;
 let displayName;
 let userId;
@@ -115,10 +153,11 @@ let userId;
 
     await client.joinRoom(config.managementRoom);
 
-    await conference.construct();
-
+    // Start serving health checks before the potentially slow search for the conference's rooms
     setupWebserver();
 
+    await conference.construct();
+
     if (!conference.isCreated) {
         await client.sendHtmlNotice(config.managementRoom, "" +
             "<h4>Welcome!</h4>" +
@@ -160,6 +199,10 @@ function registerCommands() {
         new AttendanceCommand(),
         new ScheduleCommand(),
         new FDMCommand(),
+        new DelayCommand(),
+        new CheckinsCommand(),
+        new QACommand(),
+        new ScoreboardCommand(),
     ];
 
     client.on("room.message", async (roomId: string, event: any) => {
@@ -196,15 +239,20 @@ function registerCommands() {
             return await client.replyNotice(roomId, event, `Invalid command. Try ${prefixUsed.trim()} help`);
         }
 
+        // Labels the failure if it happens before the command is found
+        let commandPrefix = "unknown";
         try {
             for (const command of commands) {
                 if (command.prefixes.includes(args[0].toLowerCase())) {
                     LogService.info("index", `${event['sender']} is running command: ${content['body']}`);
+                    commandPrefix = command.prefixes[0];
+                    commandsRun.inc({ prefix: commandPrefix });
                     return await command.run(conference, client, roomId, event, args.slice(1));
                 }
             }
         } catch (error) {
             LogService.error("index", "Error processing command: ", error);
+            commandsFailed.inc({ prefix: commandPrefix });
             return await client.replyNotice(roomId, event, `There was an error processing your command: ${error.message}`);
         }
 
@@ -214,11 +262,8 @@ function registerCommands() {
 
 function setupWebserver() {
     const app = express();
-    const tmplPath = process.env.CONF_TEMPLATES_PATH || './srv';
-    const engine = new Liquid({
-        root: tmplPath,
-        cache: process.env.NODE_ENV === 'production',
-    });
+    const tmplPath = getWebTemplatesPath();
+    const engine = getTemplateEngine();
     // @ts-ignore Bug in express types.
     app.use(express.urlencoded({ extended: true }));
     app.use('/assets', express.static(config.webserver.additionalAssetsPath));
@@ -226,14 +271,27 @@ function setupWebserver() {
     app.engine('liquid', engine.express());
     app.set('views', tmplPath);
     app.set('view engine', 'liquid');
+    if (config.webserver.trustProxy !== undefined) {
+        app.set('trust proxy', config.webserver.trustProxy);
+    }
     app.get('/widgets/auditorium.html', renderAuditoriumWidget);
     app.get('/widgets/talk.html', renderTalkWidget);
     app.get('/widgets/scoreboard.html', renderScoreboardWidget);
     app.get('/widgets/hybrid.html', renderHybridWidget);
+    app.get('/widgets/dashboard.html', renderDashboardWidget);
+    app.get('/widgets/now-next.html', renderNowNextWidget);
+    app.post('/widgets/auth', limitWidgetLogins, express.json(), loginToWidgets);
     app.post('/onpublish', rtmpRedirect);
     app.get('/healthz', renderHealthz);
+    app.get('/readyz', renderReadyz);
+    app.get('/metrics', renderMetrics);
     app.get('/scoreboard/:roomId', (rq, rs) => renderScoreboard(rq, rs, scoreboard));
+    app.get('/scoreboard/:roomId/events', (rq, rs) => scoreboardStream.subscribe(rq, rs));
+    app.get('/scheduler/history.json', requireManagementToken, renderSchedulerHistory);
+    app.get('/checkins.json', requireManagementToken, renderCheckins);
     app.get('/make_hybrid', makeHybridWidget);
+    app.use('/api/v1', createApiRouter());
+    app.use('/dashboard/api', createDashboardRouter());
     app.listen(config.webserver.port, config.webserver.address, () => {
         LogService.info("web", `Webserver running at http://${config.webserver.address}:${config.webserver.port}`);
     });
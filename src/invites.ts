@@ -19,6 +19,7 @@ import config from "./config";
 import { RS_3PID_PERSON_ID } from "./models/room_state";
 import { IDbPerson } from "./db/DbPerson";
 import { logMessage } from "./LogProxy";
+import { invites } from "./metrics";
 
 let idClient: IdentityClient;
 
@@ -72,6 +73,7 @@ export async function resolveIdentifiers(people: IDbPerson[]): Promise<ResolvedP
         }
         if (!person.email) {
             await logMessage(LogLevel.WARN, "invites", `No email or Matrix ID for person ${person.person_id} (${person.event_role}) in ${person.conference_room} - ${person.name}`);
+            invites.inc({ outcome: "unreachable" });
             continue;
         }
 
@@ -86,6 +88,16 @@ export async function resolveIdentifiers(people: IDbPerson[]): Promise<ResolvedP
 }
 
 export async function invitePersonToRoom(resolvedPerson: ResolvedPersonIdentifier, roomId: string): Promise<void> {
+    try {
+        await invite(resolvedPerson, roomId);
+    } catch (error) {
+        invites.inc({ outcome: "failed" });
+        throw error;
+    }
+    invites.inc({ outcome: resolvedPerson.mxid ? "matrix" : "email" });
+}
+
+async function invite(resolvedPerson: ResolvedPersonIdentifier, roomId: string): Promise<void> {
     if (resolvedPerson.mxid) {
         return await config.RUNTIME.client.inviteUser(resolvedPerson.mxid.trim(), roomId);
     }
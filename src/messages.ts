@@ -0,0 +1,130 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Liquid } from "liquidjs";
+import { MatrixClient } from "matrix-bot-sdk";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import config from "./config";
+
+// The built-in message templates, in English.
+const BUILTIN_MESSAGES_PATH = process.env.CONF_MESSAGE_TEMPLATES_PATH || './templates/messages';
+const DEFAULT_LOCALE = "en";
+
+let engine: Liquid;
+
+export interface IRenderedMessage {
+    html: string;
+    text?: string; // generated from the HTML when not set
+}
+
+export function getWebTemplatesPath(): string {
+    return process.env.CONF_TEMPLATES_PATH || './srv';
+}
+
+/**
+ * Gets the Liquid engine shared by the webserver and the bot's announcements.
+ * @returns The Liquid engine.
+ */
+export function getTemplateEngine(): Liquid {
+    if (!engine) {
+        engine = new Liquid({
+            root: getWebTemplatesPath(),
+            cache: process.env.NODE_ENV === 'production',
+        });
+    }
+    return engine;
+}
+
+/**
+ * Determines the locale that announcements in an auditorium should be written in.
+ * @param auditoriumId The ID of the auditorium, or `undefined` for conference-wide rooms.
+ * @returns The locale.
+ */
+export function getLocale(auditoriumId?: string): string {
+    const messagesConfig = config.conference.messages;
+    return (auditoriumId && messagesConfig?.auditoriumLocales?.[auditoriumId])
+        || messagesConfig?.locale
+        || DEFAULT_LOCALE;
+}
+
+/**
+ * Finds a message template. Templates for the locale are preferred over the default templates,
+ * and the configured templates are preferred over the built-in ones.
+ * @param fileName The file name of the template.
+ * @param locale The locale.
+ * @returns The path to the template, if it exists; `undefined` otherwise.
+ */
+function findMessageTemplate(fileName: string, locale: string): string | undefined {
+    const roots = [config.conference.messages?.templatesPath, BUILTIN_MESSAGES_PATH].filter(r => !!r);
+    for (const localeDir of [locale, ""]) {
+        for (const root of roots) {
+            const templatePath = path.resolve(root, localeDir, fileName);
+            if (fs.existsSync(templatePath)) return templatePath;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Renders a message template. The template is `<name>.liquid`, which renders HTML. A plain-text
+ * version may be provided alongside it as `<name>.txt.liquid`.
+ * @param name The name of the template.
+ * @param variables The variables to render the template with.
+ * @param locale The locale to render the template in.
+ * @returns The rendered message.
+ * @throws {Error} The template does not exist.
+ */
+export async function renderMessage(name: string, variables: object, locale: string): Promise<IRenderedMessage> {
+    const htmlPath = findMessageTemplate(`${name}.liquid`, locale);
+    if (!htmlPath) {
+        throw new Error(`Unknown message template: ${name}`);
+    }
+    const engine = getTemplateEngine();
+    const html: string = await engine.renderFile(htmlPath, variables);
+    const message: IRenderedMessage = { html: html.trim() };
+
+    // Only use a plain-text version written in the same locale as the HTML
+    const textPath = htmlPath.replace(/\.liquid$/, ".txt.liquid");
+    if (fs.existsSync(textPath)) {
+        const text: string = await engine.renderFile(textPath, variables);
+        message.text = text.trim();
+    }
+    return message;
+}
+
+/**
+ * Renders a message from a template given inline, such as in the config.
+ * @param source The Liquid source of the template, which renders HTML.
+ * @param variables The variables to render the template with.
+ * @returns The rendered message.
+ */
+export async function renderInlineMessage(source: string, variables: object): Promise<IRenderedMessage> {
+    const html: string = await getTemplateEngine().parseAndRender(source, variables);
+    return { html: html.trim() };
+}
+
+export async function sendRenderedMessage(client: MatrixClient, roomId: string, message: IRenderedMessage): Promise<string> {
+    if (message.text === undefined) {
+        return client.sendHtmlText(roomId, message.html);
+    }
+    return client.sendMessage(roomId, {
+        body: message.text,
+        msgtype: "m.text",
+        format: "org.matrix.custom.html",
+        formatted_body: message.html,
+    });
+}
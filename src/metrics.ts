@@ -0,0 +1,142 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { collectDefaultMetrics, Counter, Gauge, Histogram, register } from "prom-client";
+import config from "./config";
+
+// Tasks with no kind only send a message or template.
+const CUSTOM_TASK_KIND = "custom";
+
+collectDefaultMetrics();
+
+/**
+ * Gets the ID of the auditorium or interest room which a room belongs to, to label metrics with.
+ * @param roomId The room ID.
+ * @returns The auditorium or interest ID, or the room ID for other rooms.
+ */
+async function getAuditoriumLabel(roomId: string): Promise<string> {
+    const conference = config.RUNTIME.conference;
+    const room = conference.storedAuditoriums.find(a => a.roomId === roomId)
+        ?? conference.storedInterestRooms.find(i => i.roomId === roomId);
+    return room ? await room.getId() : roomId;
+}
+
+export function getTaskKindLabel(kind: string | undefined): string {
+    return kind ?? CUSTOM_TASK_KIND;
+}
+
+export const schedulerTasksPending = new Gauge({
+    name: "conference_scheduler_tasks_pending",
+    help: "Number of scheduler tasks waiting to run",
+    labelNames: ["kind", "auditorium"],
+    collect() {
+        this.reset();
+        for (const task of config.RUNTIME.scheduler?.inspect() ?? []) {
+            this.inc({ kind: getTaskKindLabel(task.timelineTask.kind), auditorium: task.talk.conference_room });
+        }
+    },
+});
+
+export const schedulerTasksExecuted = new Counter({
+    name: "conference_scheduler_tasks_executed_total",
+    help: "Number of scheduler tasks which have run, whether or not they succeeded",
+    labelNames: ["kind", "auditorium"],
+});
+
+export const schedulerTasksFailed = new Counter({
+    name: "conference_scheduler_tasks_failed_total",
+    help: "Number of scheduler tasks which have failed",
+    labelNames: ["kind", "auditorium"],
+});
+
+export const schedulerTaskLag = new Histogram({
+    name: "conference_scheduler_task_lag_seconds",
+    help: "How long after their scheduled time tasks started running",
+    labelNames: ["kind"],
+    buckets: [0.1, 0.5, 1, 5, 15, 30, 60, 120, 300],
+});
+
+export const scoreboardQuestions = new Gauge({
+    name: "conference_scoreboard_questions",
+    help: "Number of questions on each scoreboard",
+    labelNames: ["auditorium"],
+    async collect() {
+        this.reset();
+        for (const [roomId, stats] of Object.entries(config.RUNTIME.scoreboard?.getStats() ?? {})) {
+            this.set({ auditorium: await getAuditoriumLabel(roomId) }, stats.questions);
+        }
+    },
+});
+
+export const scoreboardVotes = new Gauge({
+    name: "conference_scoreboard_votes",
+    help: "Number of votes on the questions on each scoreboard, and their follow-ups",
+    labelNames: ["auditorium"],
+    async collect() {
+        this.reset();
+        for (const [roomId, stats] of Object.entries(config.RUNTIME.scoreboard?.getStats() ?? {})) {
+            this.set({ auditorium: await getAuditoriumLabel(roomId) }, stats.votes);
+        }
+    },
+});
+
+export const checkins = new Gauge({
+    name: "conference_checkins",
+    help: "Number of people expected to check in for talks, by whether and how they checked in",
+    labelNames: ["state"],
+    collect() {
+        this.reset();
+        const counts = config.RUNTIME.checkins?.getCounts();
+        if (!counts) return;
+        this.set({ state: "waiting" }, counts.waiting);
+        for (const [method, count] of Object.entries(counts.checkedIn)) {
+            this.set({ state: method }, count);
+        }
+    },
+});
+
+export const invites = new Counter({
+    name: "conference_invites_total",
+    help: "Number of invites to people, by outcome",
+    labelNames: ["outcome"],
+});
+
+export const commandsRun = new Counter({
+    name: "conference_commands_total",
+    help: "Number of management room commands run",
+    labelNames: ["prefix"],
+});
+
+export const commandsFailed = new Counter({
+    name: "conference_commands_failed_total",
+    help: "Number of management room commands which failed",
+    labelNames: ["prefix"],
+});
+
+export const dbQueryDuration = new Histogram({
+    name: "conference_db_query_duration_seconds",
+    help: "How long queries to the schedule backend took",
+    labelNames: ["backend", "query"],
+    buckets: [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+});
+
+/**
+ * Gets the metrics in the Prometheus text format.
+ * @returns The content type and the metrics.
+ */
+export async function getMetrics(): Promise<{ contentType: string, metrics: string }> {
+    return { contentType: register.contentType, metrics: await register.metrics() };
+}
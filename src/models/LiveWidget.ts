@@ -126,6 +126,46 @@ export class LiveWidget {
         };
     }
 
+    public static async scoreboardForRoom(roomId: string, client: MatrixClient): Promise<IStateEvent<IWidget>> {
+        const widgetId = sha256(JSON.stringify({ roomId, kind: "scoreboard" }));
+        return {
+            type: "im.vector.modular.widgets",
+            state_key: widgetId,
+            content: {
+                creatorUserId: await client.getUserId(),
+                id: widgetId,
+                type: "m.custom",
+                waitForIframeLoad: true,
+                name: "Upvoted messages",
+                avatar_url: config.livestream.widgetAvatar,
+                url: config.webserver.publicBaseUrl + "/widgets/scoreboard.html?widgetId=$matrix_widget_id&roomId=$matrix_room_id&theme=$theme",
+                data: {
+                    title: "Messages from this room",
+                },
+            } as IWidget,
+        };
+    }
+
+    public static async dashboardForManagementRoom(client: MatrixClient): Promise<IStateEvent<IWidget>> {
+        const widgetId = sha256(JSON.stringify({ roomId: config.managementRoom, kind: "dashboard" }));
+        return {
+            type: "im.vector.modular.widgets",
+            state_key: widgetId,
+            content: {
+                creatorUserId: await client.getUserId(),
+                id: widgetId,
+                type: "m.custom",
+                waitForIframeLoad: true,
+                name: "Dashboard",
+                avatar_url: config.livestream.widgetAvatar,
+                url: config.webserver.publicBaseUrl + "/widgets/dashboard.html?widgetId=$matrix_widget_id&theme=$theme",
+                data: {
+                    title: "Conference dashboard",
+                },
+            } as IWidget,
+        };
+    }
+
     public static async scheduleForAuditorium(aud: Auditorium, client: MatrixClient): Promise<IStateEvent<IWidget>> {
         const widgetId = sha256(JSON.stringify(await aud.getDefinition()) + "_AUDSCHED");
         const widgetUrl = template(config.livestream.scheduleUrl, {
@@ -150,6 +190,27 @@ export class LiveWidget {
         };
     }
 
+    public static async nowNextForAuditorium(aud: Auditorium, client: MatrixClient): Promise<IStateEvent<IWidget>> {
+        const widgetId = sha256(JSON.stringify(await aud.getDefinition()) + "_NOWNEXT");
+        return {
+            type: "im.vector.modular.widgets",
+            state_key: widgetId,
+            content: {
+                creatorUserId: await client.getUserId(),
+                id: widgetId,
+                type: "m.custom",
+                waitForIframeLoad: true,
+                name: "Now & next",
+                avatar_url: config.livestream.widgetAvatar,
+                url: config.webserver.publicBaseUrl + "/widgets/now-next.html?widgetId=$matrix_widget_id&auditoriumId=$auditoriumId&theme=$theme",
+                data: {
+                    title: `What's on in ${await aud.getName()}`,
+                    auditoriumId: await aud.getId(),
+                },
+            } as IWidget,
+        };
+    }
+
     public static layoutForAuditorium(widget: IStateEvent<IWidget>): IStateEvent<ILayout> {
         return {
             type: "io.element.widgets.layout",
@@ -209,4 +270,20 @@ export class LiveWidget {
             },
         };
     }
+
+    public static layoutWithScoreboard(scoreboard: IStateEvent<IWidget>, existing?: ILayout): IStateEvent<ILayout> {
+        // Keep the room's other widgets where they are, and show the scoreboard alongside them
+        return {
+            type: "io.element.widgets.layout",
+            state_key: "",
+            content: {
+                widgets: {
+                    ...existing?.widgets,
+                    [scoreboard.state_key]: {
+                        container: "right",
+                    },
+                },
+            },
+        };
+    }
 }
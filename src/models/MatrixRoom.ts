@@ -29,6 +29,11 @@ export class MatrixRoom {
         await this.client.sendStateEvent(this.roomId, state.type, state.state_key, state.content);
     }
 
+    public async removeDirectChild(roomId: string) {
+        const state = makeChildRoom(roomId);
+        await this.client.sendStateEvent(this.roomId, state.type, state.state_key, {});
+    }
+
     public async getSpace(): Promise<Space> {
         if (this.space) {
             return this.space;
@@ -57,8 +57,13 @@ export class Talk extends MatrixRoom {
     }
 
     public async getAuditoriumId(): Promise<string> {
-        await this.getDefinition(); // grabs ID
-        return this.auditoriumId;
+        const talkDefinition = await this.getDefinition(); // grabs ID
+        return talkDefinition.auditoriumId ?? this.auditoriumId;
+    }
+
+    public async isCancelled(): Promise<boolean> {
+        const talkDefinition = await this.getDefinition();
+        return !!talkDefinition.cancelled;
     }
 
     public async getSpeakers(): Promise<IStoredPerson[]> {
@@ -47,6 +47,15 @@ export const RS_3PID_PERSON_ID = "org.matrix.confbot.person.v2";
 export const RS_STORED_TALK = "org.matrix.confbot.talk";
 export interface IStoredTalk extends Omit<ITalk, "speakers"> {
     conferenceId: string;
+    /**
+     * The ID of the auditorium the talk has been moved to, if it has changed auditoriums since
+     * its room was created. Takes precedence over the auditorium in the room's creation event.
+     */
+    auditoriumId?: string;
+    /**
+     * Whether the talk has been removed from the schedule.
+     */
+    cancelled?: boolean;
 }
 export function makeStoredTalk(confId: string, talk: ITalk): IStateEvent<IStoredTalk> {
     return {
@@ -0,0 +1,233 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fetch, { RequestInit } from "node-fetch";
+import { LogService, UserID } from "matrix-bot-sdk";
+import { randomBytes } from "node:crypto";
+import * as dns from "node:dns";
+import * as https from "node:https";
+import { isIP } from "node:net";
+import config from "./config";
+
+// The port used for federation when a server doesn't say otherwise.
+const DEFAULT_FEDERATION_PORT = 8448;
+
+// A DNS name, optionally with a port. IPv6 literals are not matched.
+const SERVER_NAME_PATTERN = /^([\da-z-]+(?:\.[\da-z-]+)*)(?::(\d{1,5}))?$/i;
+
+/**
+ * Determines whether an IP address is loopback, private, link-local or otherwise not on the public
+ * internet, so that homeservers can't be used to make the bot send requests to its own network.
+ * @param address The IPv4 or IPv6 address.
+ * @returns Whether the address isn't public.
+ */
+function isPrivateAddress(address: string): boolean {
+    // IPv4 addresses may be written as IPv6 addresses
+    const ipv4 = address.toLowerCase().replace(/^::(ffff:)?/, "");
+    if (isIP(ipv4) === 4) address = ipv4;
+    if (isIP(address) === 4) {
+        const [a, b] = address.split(".").map(Number);
+        return a === 0 || a === 10 || a === 127 || a >= 224 ||
+            (a === 100 && b >= 64 && b < 128) ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b < 32) ||
+            (a === 192 && b === 168) ||
+            (a === 198 && (b === 18 || b === 19));
+    }
+    const lower = address.toLowerCase();
+    return lower === "::" || lower === "::1" || /^f[c-f]/.test(lower);
+}
+
+// Homeservers are only ever contacted at public addresses, whatever their names resolve to at the
+// time of the request.
+const federationAgent = new https.Agent({
+    lookup: (hostname, options, callback) => {
+        dns.lookup(hostname, options, (error, address: string | dns.LookupAddress[], family) => {
+            const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+            if (!error && addresses.some(a => isPrivateAddress(a))) {
+                error = new Error(`${hostname} resolves to a private address`);
+            }
+            callback(error, address as string, family);
+        });
+    },
+});
+
+// Redirects aren't followed, since they could point at an IP address.
+const FETCH_OPTIONS: RequestInit = { agent: federationAgent, redirect: "error" };
+
+/**
+ * The credentials from an OpenID token request, as given to widgets.
+ */
+export interface IOpenIdCredentials {
+    access_token: string;
+    matrix_server_name: string;
+}
+
+/**
+ * Checks that a server name is a DNS name, optionally with a port. IP addresses are refused, since
+ * they would get around the checks on where homeservers' names resolve to.
+ * @param serverName The server name.
+ * @throws {Error} The server name is an IP address or otherwise invalid.
+ */
+function checkServerName(serverName: string) {
+    const host = SERVER_NAME_PATTERN.exec(serverName)?.[1];
+    if (!host || isIP(host) || /^\[/.test(serverName)) {
+        throw new Error(`Invalid server name, or an IP address: ${serverName}`);
+    }
+}
+
+/**
+ * Finds the base URL of a homeserver's federation API. Delegation with `.well-known/matrix/server`
+ * is supported, but SRV records are not.
+ * @param serverName The homeserver's server name.
+ * @returns The base URL.
+ * @throws {Error} The server name, or the server it delegates to, is invalid.
+ */
+async function getFederationUrl(serverName: string): Promise<string> {
+    checkServerName(serverName);
+    if (/:\d+$/.test(serverName)) {
+        return `https://${serverName}`;
+    }
+
+    let delegated: string | undefined;
+    try {
+        const response = await fetch(`https://${serverName}/.well-known/matrix/server`, FETCH_OPTIONS);
+        if (response.ok) {
+            const wellKnown = await response.json() as { "m.server"?: unknown };
+            if (typeof wellKnown["m.server"] === "string" && wellKnown["m.server"]) {
+                delegated = wellKnown["m.server"];
+            }
+        }
+    } catch {
+        // Not delegated
+    }
+    if (delegated) {
+        checkServerName(delegated);
+        return `https://${/:\d+$/.test(delegated) ? delegated : `${delegated}:${DEFAULT_FEDERATION_PORT}`}`;
+    }
+    return `https://${serverName}:${DEFAULT_FEDERATION_PORT}`;
+}
+
+// The environments in which OpenID tokens may be checked against local tokens.
+const LOCAL_TOKEN_ENVIRONMENTS = ["development", "test"];
+
+/**
+ * Gets the local tokens which stand in for a homeserver while testing, if any are configured.
+ * @returns The user IDs by OpenID token, if configured; `undefined` otherwise.
+ * @throws {Error} Local tokens are configured outside of development or testing.
+ */
+function getLocalTokens(): { [token: string]: string } | undefined {
+    const localTokens = config.webserver.widgetAuth?.insecureLocalTokens;
+    if (localTokens && !LOCAL_TOKEN_ENVIRONMENTS.includes(process.env.NODE_ENV)) {
+        throw new Error(`webserver.widgetAuth.insecureLocalTokens is only allowed when NODE_ENV is one of: ${LOCAL_TOKEN_ENVIRONMENTS.join(", ")}`);
+    }
+    return localTokens;
+}
+
+/**
+ * Checks that the OpenID configuration is safe to run with, so that the bot refuses to start
+ * rather than accepting made up tokens in production.
+ * @throws {Error} The configuration is unsafe.
+ */
+export function checkOpenIdConfig() {
+    if (getLocalTokens()) {
+        LogService.warn("openid", "OpenID tokens will be checked against the local tokens rather than homeservers");
+    }
+}
+
+/**
+ * Checks an OpenID token with the homeserver which issued it, to find out who it belongs to. In
+ * development and testing, local tokens can be configured to stand in for homeservers.
+ * @param credentials The token and the name of the homeserver which issued it.
+ * @returns The user ID of the token's owner.
+ * @throws {Error} The token is invalid, isn't for a user of that homeserver, or the homeserver isn't allowed.
+ */
+export async function verifyOpenIdToken(credentials: IOpenIdCredentials): Promise<string> {
+    const serverName = credentials?.matrix_server_name;
+    const accessToken = credentials?.access_token;
+    if (typeof serverName !== "string" || typeof accessToken !== "string" || !serverName || !accessToken) {
+        throw new Error("Missing OpenID token or server name");
+    }
+    const allowedServers = config.webserver.openIdHomeservers;
+    if (allowedServers?.length && !allowedServers.includes(serverName)) {
+        throw new Error(`OpenID tokens from ${serverName} are not accepted`);
+    }
+
+    const localTokens = getLocalTokens();
+    if (localTokens) {
+        const userId = localTokens[accessToken];
+        if (!userId || new UserID(userId).domain !== serverName) {
+            throw new Error("Unknown local OpenID token");
+        }
+        return userId;
+    }
+
+    const baseUrl = await getFederationUrl(serverName);
+    const response = await fetch(`${baseUrl}/_matrix/federation/v1/openid/userinfo?access_token=${encodeURIComponent(accessToken)}`, FETCH_OPTIONS);
+    if (!response.ok) {
+        throw new Error(`The homeserver rejected the OpenID token: ${response.status}`);
+    }
+    const userInfo = await response.json() as { sub?: string };
+    const userId = userInfo.sub;
+    if (typeof userId !== "string" || new UserID(userId).domain !== serverName) {
+        throw new Error("The homeserver gave a user ID from another server");
+    }
+    return userId;
+}
+
+/**
+ * Sessions for people who have logged in with an OpenID token, so that they don't have to get a
+ * new token for every request.
+ */
+export class OpenIdSessions {
+    private sessions: {
+        [token: string]: {
+            userId: string,
+            expiresAt: number, // ms timestamp, utc
+        },
+    } = {};
+
+    /**
+     * @param lifetimeMs How long sessions last for, in milliseconds.
+     */
+    constructor(private readonly lifetimeMs: number) { }
+
+    /**
+     * Starts a session.
+     * @param userId The user ID of the person logging in.
+     * @returns The session token.
+     */
+    public create(userId: string): string {
+        const now = Date.now();
+        for (const [token, session] of Object.entries(this.sessions)) {
+            if (session.expiresAt <= now) delete this.sessions[token];
+        }
+        const token = randomBytes(32).toString("hex");
+        this.sessions[token] = { userId, expiresAt: now + this.lifetimeMs };
+        return token;
+    }
+
+    /**
+     * Looks up a session.
+     * @param token The session token.
+     * @returns The user ID of the session, if it exists and hasn't expired; `undefined` otherwise.
+     */
+    public getUserId(token: string | undefined): string | undefined {
+        const session = token && Object.prototype.hasOwnProperty.call(this.sessions, token) ? this.sessions[token] : undefined;
+        if (!session || session.expiresAt <= Date.now()) return undefined;
+        return session.userId;
+    }
+}
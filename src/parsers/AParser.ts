@@ -1,6 +1,5 @@
-import config, { AvailableBackends } from "../config";
+import { AvailableBackends } from "../config";
 import { IAuditorium, IConference, IInterestRoom, IPerson, ITalk } from "../models/schedule";
-import { PentabarfParser } from "./PentabarfParser";
 
 export abstract class ConferenceParser {
     public abstract getSystemName(): AvailableBackends;
@@ -10,14 +9,3 @@ export abstract class ConferenceParser {
     public readonly speakers: IPerson[];
     public readonly interestRooms: IInterestRoom[];
 }
-
-export const getConferenceParser = (input: string): ConferenceParser => {
-    switch (config.conference.backendType) {
-        case "pentabarf": {
-            return new PentabarfParser(input);
-        }
-        default: {
-            throw new Error("Unsupported backend type set in the config");
-        }
-    }
-};
\ No newline at end of file
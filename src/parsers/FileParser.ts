@@ -0,0 +1,134 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { IAuditorium, IConference, IInterestRoom, IPerson, ITalk } from "../models/schedule";
+import { RoomKind } from "../models/room_kinds";
+import config, { AvailableBackends } from "../config";
+import { ConferenceParser } from "./AParser";
+import { deprefix } from "./PentabarfParser";
+import { DateTime } from "luxon";
+import {
+    IScheduleFile,
+    parseScheduleFile,
+    parseScheduleFileDuration,
+    parseScheduleFileTime,
+} from "../db/FileDb";
+import { Role } from "../db/DbPerson";
+
+function makeSlug(title: string): string {
+    return title.toLowerCase().replace(/[^\da-z]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parses the conference structure from the same YAML or JSON schedule file that the file backend
+ * reads.
+ */
+export class FileParser extends ConferenceParser {
+    public readonly parsed: IScheduleFile;
+
+    public readonly conference: IConference;
+    public readonly auditoriums: IAuditorium[];
+    public readonly talks: ITalk[];
+    public readonly speakers: IPerson[];
+    public readonly interestRooms: IInterestRoom[];
+
+    constructor(rawFile: string) {
+        super();
+        this.parsed = parseScheduleFile(rawFile);
+
+        this.auditoriums = [];
+        this.talks = [];
+        this.speakers = [];
+        this.interestRooms = [];
+        this.conference = {
+            title: this.parsed.title || config.conference.name,
+            auditoriums: this.auditoriums,
+            interestRooms: this.interestRooms,
+        };
+
+        const roomIds = new Set([
+            ...(this.parsed.rooms || []),
+            ...(this.parsed.talks || []).map(t => t.conference_room),
+        ]);
+        for (const roomId of roomIds) {
+            if (!roomId) continue;
+
+            const metadata = deprefix(roomId);
+            if (metadata.kind === RoomKind.SpecialInterest) {
+                this.interestRooms.push({
+                    id: roomId,
+                    name: metadata.name,
+                    kind: metadata.kind,
+                });
+            } else if (metadata.kind === RoomKind.Auditorium) {
+                this.auditoriums.push({
+                    id: roomId,
+                    name: metadata.name,
+                    kind: metadata.kind,
+                    talksByDate: {},
+                });
+            }
+        }
+
+        for (const fTalk of this.parsed.talks || []) {
+            if (!fTalk?.start_datetime) continue;
+
+            const auditorium = this.auditoriums.find(a => a.id === fTalk.conference_room);
+            if (!auditorium) continue;
+
+            const startTime = parseScheduleFileTime(fTalk.start_datetime, `start_datetime of talk ${fTalk.event_id}`);
+            const dateTs = DateTime.fromMillis(startTime, { zone: config.conference.timezone }).startOf("day").toMillis();
+            const title = fTalk.title || String(fTalk.event_id);
+            const talk: ITalk = {
+                id: String(fTalk.event_id),
+                dateTs: dateTs,
+                startTime: startTime,
+                endTime: startTime + parseScheduleFileDuration(fTalk.duration) * 1000,
+                slug: fTalk.slug || makeSlug(title),
+                title: title,
+                subtitle: fTalk.subtitle,
+                track: fTalk.track,
+                speakers: [],
+            };
+            if (this.talks.some(t => t.id === talk.id)) continue;
+            this.talks.push(talk);
+
+            if (!auditorium.talksByDate[dateTs]) auditorium.talksByDate[dateTs] = [];
+            auditorium.talksByDate[dateTs].push(talk);
+
+            for (const fPerson of (this.parsed.people || []).filter(p => String(p.event_id) === talk.id)) {
+                if (fPerson.event_role !== Role.Speaker) continue;
+
+                let person: IPerson = {
+                    id: String(fPerson.person_id),
+                    name: fPerson.name,
+                };
+                const existingPerson = this.speakers.find(s => s.id === person.id);
+                if (existingPerson) {
+                    person = existingPerson;
+                } else {
+                    this.speakers.push(person);
+                }
+
+                talk.speakers.push(person);
+            }
+        }
+    }
+
+    public getSystemName(): AvailableBackends {
+        return "file";
+    }
+}
@@ -0,0 +1,230 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { IAuditorium, IConference, IInterestRoom, IPerson, ITalk } from "../models/schedule";
+import { RoomKind } from "../models/room_kinds";
+import config, { AvailableBackends } from "../config";
+import { ConferenceParser } from "./AParser";
+import { deprefix } from "./PentabarfParser";
+import { DateTime } from "luxon";
+
+export interface IFrabPerson {
+    id?: number | string; // frab
+    code?: string; // pretalx
+    name?: string;
+    public_name?: string;
+}
+
+export interface IFrabEvent {
+    id: number | string;
+    guid?: string;
+    date?: string; // ISO 8601, with offset
+    start: string; // HH:MM
+    duration: string; // HH:MM
+    room: string;
+    slug: string;
+    title: string;
+    subtitle?: string;
+    track?: string;
+    type?: string;
+    language?: string;
+    abstract?: string;
+    description?: string;
+    do_not_record?: boolean;
+    persons?: IFrabPerson[];
+}
+
+export interface IFrabSchedule {
+    schedule: {
+        version?: string;
+        base_url?: string;
+        conference: {
+            acronym?: string;
+            title: string;
+            start?: string;
+            end?: string;
+            daysCount?: number;
+            timeslot_duration?: string;
+            time_zone_name?: string;
+            days: {
+                index: number;
+                date: string;
+                day_start?: string;
+                day_end?: string;
+                rooms: {
+                    [roomName: string]: IFrabEvent[];
+                };
+            }[];
+        };
+    };
+}
+
+/**
+ * Parses a frab duration.
+ * @param str The duration, in `HH:MM` or `HH:MM:SS` format.
+ * @returns The duration, in milliseconds.
+ */
+export function parseFrabDuration(str: string): number {
+    const parts = (str || "0:00").split(':').map(p => Number(p));
+    return ((parts[0] || 0) * 60 * 60 + (parts[1] || 0) * 60 + (parts[2] || 0)) * 1000;
+}
+
+/**
+ * Determines the start time of a frab event.
+ *
+ * Pretalx includes the full date and time with an offset, which is preferred. Otherwise, the start
+ * time is relative to the date of the day the event is listed under.
+ * @param event The event.
+ * @param dayDate The date of the day the event is listed under, in ISO 8601 format.
+ * @returns The start time, as a Unix timestamp in milliseconds.
+ */
+export function getFrabEventStart(event: IFrabEvent, dayDate: string): number {
+    if (event.date) {
+        return DateTime.fromISO(event.date).toMillis();
+    }
+    return DateTime.fromISO(dayDate).toMillis() + parseFrabDuration(event.start);
+}
+
+/**
+ * Gets the ID of a frab person. frab exports a numeric ID, while Pretalx exports a speaker code.
+ * @param person The person.
+ * @returns The ID of the person.
+ */
+export function getFrabPersonId(person: IFrabPerson): string {
+    return String(person.id ?? person.code);
+}
+
+/**
+ * Determines the kind and name of a room in a frab schedule. Pretalx rooms are named for
+ * attendees rather than for the bot, so unlike in Pentabarf a room is an auditorium unless it
+ * has a special interest room prefix.
+ * @param roomName The name of the room in the schedule.
+ * @returns The kind and name of the room.
+ */
+export function deprefixFrabRoom(roomName: string): { kind: RoomKind, name: string; } {
+    const metadata = deprefix(roomName);
+    const isInterestRoom = config.conference.prefixes.interestRooms.some(p => roomName.startsWith(p));
+    if (metadata.kind === RoomKind.SpecialInterest && !isInterestRoom) {
+        return { kind: RoomKind.Auditorium, name: metadata.name };
+    }
+    return metadata;
+}
+
+export class PretalxParser extends ConferenceParser {
+    public readonly parsed: IFrabSchedule;
+
+    public readonly conference: IConference;
+    public readonly auditoriums: IAuditorium[];
+    public readonly talks: ITalk[];
+    public readonly speakers: IPerson[];
+    public readonly interestRooms: IInterestRoom[];
+
+    constructor(rawJson: string) {
+        super();
+        this.parsed = JSON.parse(rawJson);
+
+        this.auditoriums = [];
+        this.talks = [];
+        this.speakers = [];
+        this.interestRooms = [];
+        this.conference = {
+            title: this.parsed.schedule?.conference?.title,
+            auditoriums: this.auditoriums,
+            interestRooms: this.interestRooms,
+        };
+
+        for (const day of this.parsed.schedule?.conference?.days || []) {
+            if (!day) continue;
+
+            const dateTs = DateTime.fromISO(day.date).toMillis();
+            for (const [roomName, events] of Object.entries(day.rooms || {})) {
+                const metadata = deprefixFrabRoom(roomName || "org.matrix.confbot.unknown");
+                if (metadata.kind === RoomKind.SpecialInterest) {
+                    const spiRoom: IInterestRoom = {
+                        id: roomName,
+                        name: metadata.name,
+                        kind: metadata.kind,
+                    };
+                    const existingSpi = this.interestRooms.find(r => r.id === spiRoom.id);
+                    if (!existingSpi) {
+                        this.interestRooms.push(spiRoom);
+                    }
+                    continue;
+                }
+                if (metadata.kind !== RoomKind.Auditorium) continue;
+                let auditorium: IAuditorium = {
+                    id: roomName,
+                    name: metadata.name,
+                    kind: metadata.kind,
+                    talksByDate: {},
+                };
+                const existingAuditorium = this.auditoriums.find(r => r.id === auditorium.id);
+                if (existingAuditorium) {
+                    auditorium = existingAuditorium;
+                } else {
+                    this.auditoriums.push(auditorium);
+                }
+
+                for (const fEvent of events || []) {
+                    if (!fEvent) continue;
+
+                    const startTime = getFrabEventStart(fEvent, day.date);
+                    let talk: ITalk = {
+                        id: String(fEvent.id),
+                        dateTs: dateTs,
+                        startTime: startTime,
+                        endTime: startTime + parseFrabDuration(fEvent.duration),
+                        slug: fEvent.slug,
+                        title: fEvent.title,
+                        subtitle: fEvent.subtitle,
+                        track: fEvent.track,
+                        speakers: [],
+                    };
+                    const existingTalk = this.talks.find(e => e.id === talk.id);
+                    if (existingTalk) {
+                        talk = existingTalk;
+                    } else {
+                        this.talks.push(talk);
+                    }
+
+                    if (!auditorium.talksByDate[dateTs]) auditorium.talksByDate[dateTs] = [];
+                    if (!auditorium.talksByDate[dateTs].includes(talk)) auditorium.talksByDate[dateTs].push(talk);
+
+                    for (const fPerson of fEvent.persons || []) {
+                        if (!fPerson) continue;
+
+                        let person: IPerson = {
+                            id: getFrabPersonId(fPerson),
+                            name: fPerson.public_name || fPerson.name,
+                        };
+                        const existingPerson = this.speakers.find(s => s.id === person.id);
+                        if (existingPerson) {
+                            person = existingPerson;
+                        } else {
+                            this.speakers.push(person);
+                        }
+
+                        if (!talk.speakers.includes(person)) talk.speakers.push(person);
+                    }
+                }
+            }
+        }
+    }
+
+    public getSystemName(): AvailableBackends {
+        return "pretalx";
+    }
+}
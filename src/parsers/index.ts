@@ -0,0 +1,40 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import config from "../config";
+import { ConferenceParser } from "./AParser";
+import { PentabarfParser } from "./PentabarfParser";
+import { PretalxParser } from "./PretalxParser";
+import { FileParser } from "./FileParser";
+
+// The parsers import the ConferenceParser base class, so the factory lives apart from it
+// to avoid a circular import.
+export const getConferenceParser = (input: string): ConferenceParser => {
+    switch (config.conference.backendType) {
+        case "pentabarf": {
+            return new PentabarfParser(input);
+        }
+        case "pretalx": {
+            return new PretalxParser(input);
+        }
+        case "file": {
+            return new FileParser(input);
+        }
+        default: {
+            throw new Error("Unsupported backend type set in the config");
+        }
+    }
+};
\ No newline at end of file
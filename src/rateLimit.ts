@@ -0,0 +1,53 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { NextFunction, Request, Response } from "express";
+import { LogService } from "matrix-bot-sdk";
+
+/**
+ * Creates middleware which limits how often each client can make a request, for endpoints which
+ * do expensive or sensitive work, such as asking a homeserver about an OpenID token. Clients are
+ * told by IP address, so `webserver.trustProxy` must be set behind a reverse proxy.
+ * @param name The name of the endpoint, for logging.
+ * @param maxRequests How many requests each client can make in each window.
+ * @param windowMs The length of the window, in milliseconds.
+ * @returns The middleware, which responds with a 429 to clients over the limit.
+ */
+export function rateLimit(name: string, maxRequests: number, windowMs: number) {
+    const windows = new Map<string, { count: number, resetAt: number }>();
+    return (req: Request, res: Response, next: NextFunction) => {
+        const now = Date.now();
+        const client = req.ip ?? "unknown";
+        let window = windows.get(client);
+        if (!window || window.resetAt <= now) {
+            for (const [c, w] of windows) {
+                if (w.resetAt <= now) windows.delete(c);
+            }
+            window = { count: 0, resetAt: now + windowMs };
+            windows.set(client, window);
+        }
+
+        window.count++;
+        if (window.count > maxRequests) {
+            if (window.count === maxRequests + 1) {
+                LogService.warn("rateLimit", `Rate limiting ${client} on ${name}`);
+            }
+            res.set("Retry-After", String(Math.ceil((window.resetAt - now) / 1000)));
+            return res.sendStatus(429);
+        }
+        next();
+    };
+}
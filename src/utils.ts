@@ -28,6 +28,7 @@ import {
 import { logMessage } from "./LogProxy";
 import * as htmlEscape from "escape-html";
 import * as crypto from "node:crypto";
+import { promises as fs } from "node:fs";
 import config from "./config";
 
 const escapeRegex = (v: string): string => {
@@ -198,3 +199,16 @@ export function makeDisplayName(name: string, identifier: string): string {
         name, identifier, config.conference.prefixes.displayNameSuffixes
     );
 }
+
+/**
+ * Writes a file by writing to a temporary file, then replacing the previous file with it
+ * atomically. This ensures that the saved data remains valid even if the bot dies while writing
+ * new data.
+ * @param filePath The path of the file.
+ * @param data The new contents of the file.
+ */
+export async function writeFileAtomically(filePath: string, data: string) {
+    const tempFilePath = filePath + '.tmp';
+    await fs.writeFile(tempFilePath, data, "utf-8");
+    await fs.rename(tempFilePath, filePath);
+}
@@ -14,16 +14,21 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { Response, Request } from "express";
+import { NextFunction, Response, Request } from "express";
 import * as template from "string-template";
 import config from "./config";
 import { base32 } from "rfc4648";
 import { LogService } from "matrix-bot-sdk";
 import { sha256 } from "./utils";
 import * as dns from "node:dns";
+import * as crypto from "node:crypto";
 import { Scoreboard } from "./Scoreboard";
 import { LiveWidget } from "./models/LiveWidget";
 import { IDbTalk } from "./db/DbTalk";
+import { MatrixRoom } from "./models/MatrixRoom";
+import { getMetrics } from "./metrics";
+import { getSessionUserId } from "./dashboard";
+import { authorizeRoom } from "./widgetAuth";
 
 export function renderAuditoriumWidget(req: Request, res: Response) {
     const audId = req.query?.['auditoriumId'] as string;
@@ -47,6 +52,31 @@ export function renderAuditoriumWidget(req: Request, res: Response) {
     });
 }
 
+/**
+ * Renders what's on now and next in an auditorium, as a widget or, with `signage=true`, as a
+ * fullscreen page for the screens outside it. The page keeps itself up to date from the API.
+ * @param req The request.
+ * @param res The response.
+ */
+export async function renderNowNextWidget(req: Request, res: Response) {
+    const audId = req.query?.['auditoriumId'] as string;
+    if (!audId || Array.isArray(audId)) {
+        return res.sendStatus(404);
+    }
+
+    const aud = config.RUNTIME.conference.getAuditorium(audId);
+    if (!aud) {
+        return res.sendStatus(404);
+    }
+
+    return res.render('now-next.liquid', {
+        theme: req.query?.['theme'] === 'dark' ? 'dark' : 'light',
+        signage: req.query?.['signage'] === 'true',
+        auditoriumId: audId,
+        roomName: await aud.getName(),
+    });
+}
+
 const TALK_CACHE_DURATION = 60 * 1000; // ms
 const dbTalksCache: {
     [talkId: string]: {
@@ -97,6 +127,8 @@ export async function renderTalkWidget(req: Request, res: Response) {
         return res.sendStatus(404);
     }
 
+    if (!await authorizeRoom(req, res, talk.roomId, { page: true })) return;
+
     // Fetch the corresponding talk from Pentabarf. We cache the `IDbTalk` to avoid hitting the
     // Pentabarf database for every visiting attendee once talk rooms are opened to the public.
     const dbTalk = await getDbTalk(talkId);
@@ -125,6 +157,8 @@ export async function renderHybridWidget(req: Request, res: Response) {
         return res.sendStatus(404);
     }
 
+    if (!await authorizeRoom(req, res, roomId, { page: true })) return;
+
     const streamUrl = template(config.livestream.hybridUrl, {
         jitsi: base32.stringify(Buffer.from(roomId), { pad: false }).toLowerCase(),
     });
@@ -144,6 +178,10 @@ export async function makeHybridWidget(req: Request, res: Response) {
         return res.sendStatus(404);
     }
 
+    // This sends a room ID to the widget API, so it can be limited to people in the room.
+    const requireLogin = !!config.webserver.widgetAuth?.requireLoginToMakeHybrid;
+    if (requireLogin && !await authorizeRoom(req, res, roomId, { requireLogin })) return;
+
     const widget = await LiveWidget.hybridForRoom(roomId, config.RUNTIME.client);
     const layout = LiveWidget.layoutForHybrid(widget);
 
@@ -187,11 +225,61 @@ export async function rtmpRedirect(req: Request, res: Response) {
     }
 }
 
+/**
+ * Reports whether the bot is alive, so that it can be restarted if it gets stuck.
+ * @param req The request.
+ * @param res The response, with a status of 503 if the bot is not alive.
+ */
 export function renderHealthz(req: Request, res: Response) {
-    return res.sendStatus(200);
+    const report = config.RUNTIME.health.getLiveness();
+    res.set("Cache-Control", "no-cache");
+    return res.status(report.status === "ok" ? 200 : 503).send(report);
+}
+
+export function renderDashboardWidget(req: Request, res: Response) {
+    return res.render('dashboard.liquid', {
+        theme: req.query?.['theme'] === 'dark' ? 'dark' : 'light',
+    });
+}
+
+/**
+ * Serves the bot's metrics for Prometheus.
+ * @param req The request.
+ * @param res The response.
+ */
+export async function renderMetrics(req: Request, res: Response) {
+    try {
+        const { contentType, metrics } = await getMetrics();
+        res.set("Content-Type", contentType);
+        return res.send(metrics);
+    } catch (error) {
+        LogService.error("web", "Error collecting metrics:", error);
+        return res.sendStatus(500);
+    }
+}
+
+/**
+ * Reports whether the bot is ready to run the conference.
+ * @param req The request.
+ * @param res The response, with a status of 503 if the bot is not ready.
+ */
+export async function renderReadyz(req: Request, res: Response) {
+    try {
+        const report = await config.RUNTIME.health.getReadiness();
+        res.set("Cache-Control", "no-cache");
+        return res.status(report.status === "ok" ? 200 : 503).send(report);
+    } catch (error) {
+        LogService.error("web", "Error checking readiness:", error);
+        return res.sendStatus(500);
+    }
 }
 
 export async function renderScoreboardWidget(req: Request, res: Response) {
+    const roomId = req.query?.['roomId'];
+    if (roomId !== undefined) {
+        return await renderRoomScoreboardWidget(req, res, roomId);
+    }
+
     const audId = req.query?.['auditoriumId'] as string;
     if (!audId || Array.isArray(audId)) {
         return res.sendStatus(404);
@@ -215,6 +303,9 @@ export async function renderScoreboardWidget(req: Request, res: Response) {
         return res.sendStatus(404);
     }
 
+    // The widget shows the auditorium's scoreboard, so it is as visible as the auditorium.
+    if (!await authorizeRoom(req, res, aud.roomId, { page: true })) return;
+
     return res.render('scoreboard.liquid', {
         theme: req.query?.['theme'] === 'dark' ? 'dark' : 'light',
         trackingAlias: await aud.getCanonicalAlias(),
@@ -222,14 +313,96 @@ export async function renderScoreboardWidget(req: Request, res: Response) {
     });
 }
 
-export function renderScoreboard(req: Request, res: Response, scoreboard: Scoreboard) {
+/**
+ * Renders the scoreboard widget for a room which has a scoreboard of its own, rather than for a
+ * talk.
+ * @param req The request.
+ * @param res The response.
+ * @param roomId The room ID from the request.
+ */
+async function renderRoomScoreboardWidget(req: Request, res: Response, roomId: unknown) {
+    if (typeof roomId !== 'string' || !config.RUNTIME.scoreboard.hasScoreboard(roomId)) {
+        return res.sendStatus(404);
+    }
+
+    if (!await authorizeRoom(req, res, roomId, { page: true })) return;
+
+    const room = new MatrixRoom(roomId, config.RUNTIME.client, config.RUNTIME.conference);
+    return res.render('scoreboard.liquid', {
+        theme: req.query?.['theme'] === 'dark' ? 'dark' : 'light',
+        trackingAlias: await room.getCanonicalAlias() ?? roomId,
+        trackingId: roomId,
+    });
+}
+
+/**
+ * Middleware which only lets through requests bearing the management token or a dashboard session
+ * token, for endpoints which expose how the conference is being run.
+ * @param req The request.
+ * @param res The response.
+ * @param next The next handler.
+ */
+export function requireManagementToken(req: Request, res: Response, next: NextFunction) {
+    const token = config.webserver.managementToken;
+    const header = req.headers['authorization'];
+    const provided = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : undefined;
+    if (!provided) {
+        return res.sendStatus(401);
+    }
+    // Compare hashes so that the comparison takes the same time whatever the token's length
+    const isManagementToken = !!token && crypto.timingSafeEqual(Buffer.from(sha256(provided)), Buffer.from(sha256(token)));
+    if (!isManagementToken && !getSessionUserId(provided)) {
+        return res.sendStatus(401);
+    }
+    next();
+}
+
+export async function renderSchedulerHistory(req: Request, res: Response) {
+    const audId = req.query?.['auditoriumId'];
+    if (Array.isArray(audId)) {
+        return res.sendStatus(400);
+    }
+    const limit = req.query?.['limit'] === undefined ? undefined : Number(req.query['limit']);
+    if (limit !== undefined && !(Number.isSafeInteger(limit) && limit > 0)) {
+        return res.sendStatus(400);
+    }
+
+    try {
+        const executions = await config.RUNTIME.scheduler.getHistory().getExecutions({
+            auditoriumId: audId as string | undefined,
+            failedOnly: req.query?.['failed'] === 'true',
+            limit: limit,
+        });
+        return res.send(executions);
+    } catch (error) {
+        LogService.error("web", "Error reading the scheduler history:", error);
+        return res.sendStatus(500);
+    }
+}
+
+export async function renderCheckins(req: Request, res: Response) {
+    const audId = req.query?.['auditoriumId'];
+    if (Array.isArray(audId)) {
+        return res.sendStatus(400);
+    }
+
+    try {
+        const statuses = await config.RUNTIME.checkins.getUpcomingStatus(audId as string | undefined);
+        return res.send(statuses);
+    } catch (error) {
+        LogService.error("web", "Error getting check-ins:", error);
+        return res.sendStatus(500);
+    }
+}
+
+export async function renderScoreboard(req: Request, res: Response, scoreboard: Scoreboard) {
     const roomId = req.params['roomId'];
     if (!roomId) return res.sendStatus(400);
 
-    const auditorium = config.RUNTIME.conference.storedAuditoriums.find(a => a.roomId === roomId);
-    if (!auditorium) return res.sendStatus(404);
+    if (!scoreboard.hasScoreboard(roomId)) return res.sendStatus(404);
+    if (!await authorizeRoom(req, res, roomId)) return;
 
-    let sb = scoreboard.getScoreboard(auditorium.roomId);
+    let sb = scoreboard.getScoreboard(roomId);
     sb = sb || { qaStartTime: undefined, ordered: [] };
     res.send(sb);
 }
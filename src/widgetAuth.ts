@@ -0,0 +1,153 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Request, Response } from "express";
+import { LogService } from "matrix-bot-sdk";
+import config from "./config";
+import { IOpenIdCredentials, OpenIdSessions, verifyOpenIdToken } from "./openid";
+import { rateLimit } from "./rateLimit";
+
+// How long widgets stay logged in for. Membership of the room is still checked on every request.
+const SESSION_LIFETIME_MS = 12 * 60 * 60 * 1000;
+
+// How long room memberships and join rules are cached for.
+const ROOM_CACHE_DURATION_MS = 60 * 1000;
+
+// How often each client can try to log in. Each attempt asks a homeserver about an OpenID token.
+const LOGIN_RATE_LIMIT = 30;
+const LOGIN_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+const sessions = new OpenIdSessions(SESSION_LIFETIME_MS);
+
+const roomCache: {
+    [key: string]: {
+        value: Promise<boolean>,
+        cachedAt: number, // ms
+    },
+} = {};
+
+/**
+ * Gets a fact about a room, with a short cache. Failures are cached too, since they usually mean
+ * that the bot isn't in the room.
+ * @param key The key to cache the fact under.
+ * @param fn The function which gets the fact.
+ * @returns The fact.
+ */
+function cachedFact(key: string, fn: () => Promise<boolean>): Promise<boolean> {
+    const now = Date.now();
+    if (!(key in roomCache) || now - roomCache[key].cachedAt > ROOM_CACHE_DURATION_MS) {
+        roomCache[key] = { value: fn().catch(() => false), cachedAt: now };
+    }
+    return roomCache[key].value;
+}
+
+/**
+ * Determines whether anyone may see a room's widgets without logging in. Talk rooms and backstages
+ * always need people to log in, and other rooms do unless anyone can join them.
+ * @param roomId The room ID.
+ * @returns Whether the room's widgets are public.
+ */
+function isPublicRoom(roomId: string): Promise<boolean> {
+    const conference = config.RUNTIME.conference;
+    if (conference.storedTalks.some(t => t.roomId === roomId) ||
+        conference.storedAuditoriumBackstages.some(b => b.roomId === roomId)) {
+        return Promise.resolve(false);
+    }
+    return cachedFact(`public:${roomId}`, async () => {
+        const joinRules = await config.RUNTIME.client.getRoomStateEvent(roomId, "m.room.join_rules", "");
+        return joinRules?.["join_rule"] === "public";
+    });
+}
+
+function isMember(userId: string, roomId: string): Promise<boolean> {
+    return cachedFact(`member:${roomId}:${userId}`, async () => {
+        const members = await config.RUNTIME.client.getJoinedRoomMembers(roomId);
+        return members.includes(userId);
+    });
+}
+
+/**
+ * Limits how often each client can log widgets in, to go before `loginToWidgets`.
+ */
+export const limitWidgetLogins = rateLimit("widget login", LOGIN_RATE_LIMIT, LOGIN_RATE_LIMIT_WINDOW_MS);
+
+/**
+ * Logs a widget in, with an OpenID token which the widget got from the person's client.
+ * @param req The request, with the OpenID credentials as its body.
+ * @param res The response, with the token for the widget to pass to the bot as `widgetToken`.
+ */
+export async function loginToWidgets(req: Request, res: Response) {
+    let userId: string;
+    try {
+        userId = await verifyOpenIdToken(req.body as IOpenIdCredentials);
+    } catch (error) {
+        LogService.warn("widgetAuth", "Rejected OpenID token:", error);
+        return res.status(401).send({ error: "Invalid OpenID token" });
+    }
+    return res.send({ token: sessions.create(userId), userId });
+}
+
+/**
+ * Checks that a request may see a room's widgets and data. Anyone may see them for public rooms,
+ * and otherwise people must log in and be in the room.
+ * @param req The request, with the token from logging in as a bearer token or in the
+ * `widgetToken` query parameter.
+ * @param res The response, which is sent if the request is refused.
+ * @param roomId The room ID.
+ * @param options Whether the request is for a widget page, which shows the login page if the
+ * person needs to log in, and whether people must log in even for public rooms.
+ * @returns Whether the request may go ahead.
+ */
+export async function authorizeRoom(req: Request, res: Response, roomId: string, options: { page?: boolean, requireLogin?: boolean } = {}): Promise<boolean> {
+    if (config.webserver.widgetAuth?.enabled === false) return true;
+
+    const queryToken = req.query?.['widgetToken'];
+    if (typeof queryToken === 'string') {
+        // Stop the token leaking to other sites through the Referer header
+        res.set("Referrer-Policy", "no-referrer");
+    }
+
+    if (!options.requireLogin && await isPublicRoom(roomId)) return true;
+
+    const token = /^Bearer (.+)$/.exec(req.header("Authorization") ?? "")?.[1]
+        ?? (typeof queryToken === 'string' ? queryToken : undefined);
+    const userId = sessions.getUserId(token);
+
+    if (!userId) {
+        if (options.page) {
+            res.status(401).render('auth.liquid', {
+                theme: req.query?.['theme'] === 'dark' ? 'dark' : 'light',
+            });
+        } else {
+            res.sendStatus(401);
+        }
+        return false;
+    }
+
+    if (!await isMember(userId, roomId)) {
+        LogService.warn("widgetAuth", `Refused ${userId} access to ${roomId}, which they are not in`);
+        if (options.page) {
+            res.status(403).render('auth.liquid', {
+                theme: req.query?.['theme'] === 'dark' ? 'dark' : 'light',
+                error: "You need to be in this room to use this widget.",
+            });
+        } else {
+            res.sendStatus(403);
+        }
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,60 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import "./common.scss";
+import { WidgetApi } from "matrix-widget-api";
+import { widgetId } from "./widgets";
+import { getAttr } from "./common";
+
+const statusEl = document.querySelector<HTMLElement>("#authStatus");
+
+function setStatus(text: string) {
+    if (statusEl) statusEl.textContent = text;
+}
+
+const authError = getAttr('org.matrix.confbot.auth_error');
+
+if (authError) {
+    setStatus(authError);
+} else if (widgetId) {
+    (async function () {
+        const widgetApi = new WidgetApi(widgetId);
+        widgetApi.start();
+        await new Promise<void>(resolve => {
+            widgetApi.once("ready", () => resolve());
+        });
+
+        try {
+            const credentials = await widgetApi.requestOpenIDConnectToken();
+            const response = await fetch("/widgets/auth", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(credentials),
+            });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const session: { token: string } = await response.json();
+
+            // Load the widget again, with the token for it to pass back to the bot
+            const url = new URL(window.location.href);
+            url.searchParams.set("widgetToken", session.token);
+            window.location.replace(url.toString());
+        } catch (error) {
+            setStatus(`Couldn't log in: ${error.message}`);
+        }
+    })();
+} else {
+    setStatus("Open this widget in the room to log in.");
+}
@@ -0,0 +1,251 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import "./common.scss";
+import { WidgetApi } from "matrix-widget-api";
+import { widgetId } from "./widgets";
+
+// How often to refresh the dashboard.
+const REFRESH_INTERVAL_MS = 30_000;
+
+interface DashboardRoom {
+    id: string;
+    name: string;
+    kind: "auditorium" | "interest";
+    roomId: string;
+    running: boolean;
+    paused: boolean;
+}
+
+interface DashboardTask {
+    id: string;
+    name: string;
+    talkId: string;
+    auditoriumId: string;
+    startTime: number;
+}
+
+interface TalkCheckinStatus {
+    talkId: string;
+    auditoriumId: string;
+    title: string;
+    startTime: number;
+    people: { name?: string, userId?: string, checkedIn: boolean }[];
+    alert?: string;
+}
+
+interface DashboardScoreboard {
+    roomId: string;
+    auditoriumId?: string;
+    questions: number;
+    votes: number;
+    top: { text: string, upvotes: number, senderName?: string, senderId: string }[];
+}
+
+interface DashboardState {
+    userId: string;
+    rooms: DashboardRoom[];
+    tasks: DashboardTask[];
+    checkins: TalkCheckinStatus[];
+    scoreboards: DashboardScoreboard[];
+}
+
+interface RoomAttendance {
+    invited: number;
+    joined: number;
+    emailInvites: number;
+}
+
+interface Attendance {
+    id: string;
+    room: RoomAttendance;
+    backstage?: RoomAttendance;
+}
+
+const statusEl = document.querySelector<HTMLElement>("#dashboardStatus");
+let sessionToken: string | undefined;
+
+function setStatus(text: string) {
+    statusEl!.textContent = text;
+    statusEl!.style.display = text ? "block" : "none";
+}
+
+function formatTime(ts: number): string {
+    return new Date(ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatPercent(n: number, total: number): string {
+    return total > 0 ? `${Math.round(n / total * 100)}%` : "-";
+}
+
+/**
+ * Creates a table cell, or a row of cells.
+ * @param contents The text or element in each cell.
+ * @param header Whether the cells are headers.
+ * @returns The row.
+ */
+function makeRow(contents: (string | number | HTMLElement)[], header = false): HTMLTableRowElement {
+    const row = document.createElement("tr");
+    for (const content of contents) {
+        const cell = document.createElement(header ? "th" : "td");
+        if (content instanceof HTMLElement) {
+            cell.append(content);
+        } else {
+            cell.textContent = String(content);
+        }
+        row.append(cell);
+    }
+    return row;
+}
+
+function renderTable(selector: string, headers: string[], rows: (string | number | HTMLElement)[][]) {
+    const table = document.querySelector(selector)!;
+    table.replaceChildren(makeRow(headers, true), ...rows.map(r => makeRow(r)));
+}
+
+async function callApi<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`/dashboard/api${path}`, {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            ...(sessionToken ? { "Authorization": `Bearer ${sessionToken}` } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(json.error || `Request failed: ${response.status}`);
+    }
+    return json;
+}
+
+function makeButton(label: string, onClick: () => Promise<unknown>): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.addEventListener("click", async () => {
+        button.disabled = true;
+        try {
+            await onClick();
+            await refresh();
+        } catch (error) {
+            setStatus(`${label} failed: ${error.message}`);
+        } finally {
+            button.disabled = false;
+        }
+    });
+    return button;
+}
+
+function makeActions(...buttons: HTMLButtonElement[]): HTMLElement {
+    const span = document.createElement("span");
+    span.className = "actions";
+    span.append(...buttons);
+    return span;
+}
+
+function render(state: DashboardState) {
+    renderTable("#dashboardRooms", ["ID", "Name", "Kind", "Schedule", ""], state.rooms.map(r => [
+        r.id,
+        r.name,
+        r.kind,
+        r.running ? (r.paused ? "paused" : "running") : "stopped",
+        makeActions(
+            r.running
+                ? makeButton("Stop", () => callApi("POST", `/rooms/${encodeURIComponent(r.id)}/stop`))
+                : makeButton("Run", () => callApi("POST", `/rooms/${encodeURIComponent(r.id)}/run`)),
+            makeButton("Re-send invites", () => callApi("POST", `/rooms/${encodeURIComponent(r.id)}/invite`)),
+        ),
+    ]));
+
+    renderTable("#dashboardTasks", ["Time", "Task", "Auditorium", "Talk", ""], state.tasks.map(t => [
+        formatTime(t.startTime),
+        t.name,
+        t.auditoriumId,
+        t.talkId,
+        makeActions(makeButton("Skip", () => callApi("POST", `/tasks/${encodeURIComponent(t.id)}/skip`))),
+    ]));
+
+    renderTable("#dashboardCheckins", ["Time", "Talk", "Auditorium", "Checked in", "Waiting for"], state.checkins.map(c => [
+        formatTime(c.startTime),
+        c.title,
+        c.auditoriumId,
+        `${c.people.filter(p => p.checkedIn).length}/${c.people.length}`,
+        c.people.filter(p => !p.checkedIn).map(p => p.name || p.userId).join(", "),
+    ]));
+
+    renderTable("#dashboardScoreboards", ["Room", "Questions", "Votes", "Top questions"], state.scoreboards.map(s => [
+        s.auditoriumId ?? s.roomId,
+        s.questions,
+        s.votes,
+        s.top.map(q => `(${q.upvotes}) ${q.senderName || q.senderId}: ${q.text}`).join("\n"),
+    ]));
+}
+
+function renderAttendance(attendance: Attendance[]) {
+    renderTable("#dashboardAttendance", ["Room", "Invited", "Joined", "Email invites", "Backstage joined"], attendance.map(a => [
+        a.id,
+        a.room.invited,
+        formatPercent(a.room.joined, a.room.invited),
+        formatPercent(a.room.emailInvites, a.room.invited),
+        a.backstage ? formatPercent(a.backstage.joined, a.backstage.invited) : "-",
+    ]));
+}
+
+async function refresh() {
+    try {
+        render(await callApi<DashboardState>("GET", "/state"));
+        setStatus("");
+    } catch (error) {
+        setStatus(`Couldn't load the dashboard: ${error.message}`);
+    }
+}
+
+document.querySelector("#dashboardAttendanceButton")?.addEventListener("click", async ev => {
+    const button = ev.target as HTMLButtonElement;
+    button.disabled = true;
+    button.textContent = "Calculating...";
+    try {
+        renderAttendance(await callApi<Attendance[]>("GET", "/attendance"));
+    } catch (error) {
+        setStatus(`Couldn't calculate attendance: ${error.message}`);
+    } finally {
+        button.disabled = false;
+        button.textContent = "Calculate attendance";
+    }
+});
+
+if (widgetId) {
+    (async function () {
+        const widgetApi = new WidgetApi(widgetId);
+        widgetApi.start();
+        await new Promise<void>(resolve => {
+            widgetApi.once("ready", () => resolve());
+        });
+
+        try {
+            const credentials = await widgetApi.requestOpenIDConnectToken();
+            const session = await callApi<{ token: string }>("POST", "/login", credentials);
+            sessionToken = session.token;
+        } catch (error) {
+            setStatus(`Couldn't log in: ${error.message}`);
+            return;
+        }
+        await refresh();
+        setInterval(refresh, REFRESH_INTERVAL_MS);
+    })();
+} else {
+    setStatus("Open the dashboard from the widget in the management room to log in.");
+}
@@ -0,0 +1,146 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import "./common.scss";
+import { formatDuration, getAttr } from "./common";
+
+// How often to fetch what's on. The API caches it for a minute or so, and the talks are moved
+// along here in between.
+const REFRESH_INTERVAL_MS = 30_000;
+
+// How often to update the progress bar and countdown.
+const TICK_INTERVAL_MS = 1000;
+
+// Delays shorter than this aren't worth showing.
+const MIN_DELAY_MS = 60_000;
+
+interface Talk {
+    id: string;
+    title: string;
+    startTime: number;
+    endTime: number;
+    cancelled: boolean;
+    speakers: { name: string }[];
+    live?: {
+        startTime: number;
+        qaStartTime: number;
+        endTime: number;
+    };
+}
+
+interface NowNext {
+    auditoriumId: string;
+    now?: Talk;
+    next?: Talk;
+}
+
+const auditoriumId = getAttr('org.matrix.confbot.auditorium_id');
+const delayEl = document.querySelector<HTMLElement>("#nowNextDelay");
+const nowEl = document.querySelector<HTMLElement>("#nowNextNow");
+const nextEl = document.querySelector<HTMLElement>("#nowNextNext");
+
+let talks: Talk[] = [];
+
+function startOf(talk: Talk): number {
+    return talk.live?.startTime ?? talk.startTime;
+}
+
+function endOf(talk: Talk): number {
+    return talk.live?.endTime ?? talk.endTime;
+}
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatCountdown(duration: number): string {
+    if (duration >= 60 * 60 * 1000) {
+        return `${Math.floor(duration / 60 / 60 / 1000)}h ${Math.floor(duration / 60 / 1000) % 60}m`;
+    }
+    return formatDuration(duration);
+}
+
+function setText(sectionEl: HTMLElement | null, selector: string, text: string) {
+    const el = sectionEl?.querySelector<HTMLElement>(selector);
+    if (el) el.textContent = text;
+}
+
+function renderTalk(sectionEl: HTMLElement | null, talk: Talk | undefined, times: string) {
+    if (!sectionEl) return;
+    sectionEl.classList.toggle("empty", !talk);
+    setText(sectionEl, ".title", talk ? talk.title : "Nothing scheduled");
+    setText(sectionEl, ".speakers", talk ? talk.speakers.map(s => s.name).join(", ") : "");
+    setText(sectionEl, ".times", times);
+}
+
+/**
+ * Shows the talks on now and next. These are worked out from the times of the talks rather than
+ * taken as they came from the bot, so that talks move along on time between fetches.
+ */
+function render() {
+    const now = Date.now();
+    const current = talks.find(t => startOf(t) <= now && endOf(t) > now);
+    const upcoming = talks.find(t => startOf(t) > now);
+
+    let progress = 0;
+    let currentTimes = "";
+    if (current) {
+        progress = Math.min(1, (now - startOf(current)) / (endOf(current) - startOf(current)));
+        const inQA = current.live && now >= current.live.qaStartTime;
+        currentTimes = `${formatTime(startOf(current))} - ${formatTime(endOf(current))}${inQA ? " · Q&A" : ""}`;
+    }
+    renderTalk(nowEl, current, currentTimes);
+    const barEl = nowEl?.querySelector<HTMLElement>(".bar");
+    if (barEl) barEl.style.width = `${Math.round(progress * 100)}%`;
+
+    let upcomingTimes = "";
+    if (upcoming) {
+        upcomingTimes = upcoming.cancelled
+            ? "Cancelled"
+            : `${formatTime(startOf(upcoming))} · starts in ${formatCountdown(startOf(upcoming) - now)}`;
+    }
+    renderTalk(nextEl, upcoming, upcomingTimes);
+
+    const delayed = [current, upcoming].find(t => t?.live && t.live.startTime - t.startTime >= MIN_DELAY_MS);
+    if (delayEl) {
+        delayEl.style.display = delayed ? "block" : "none";
+        delayEl.textContent = delayed
+            ? `Running ${Math.round((delayed.live!.startTime - delayed.startTime) / 60 / 1000)} minutes late`
+            : "";
+    }
+}
+
+async function refresh() {
+    if (!auditoriumId) return;
+    try {
+        const response = await fetch(`/api/v1/auditoriums/${encodeURIComponent(auditoriumId)}/now-next`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const nowNext: NowNext = await response.json();
+        talks = [nowNext.now, nowNext.next].filter(t => !!t) as Talk[];
+    } catch (error) {
+        console.error("Error fetching what's on:", error);
+    }
+    render();
+}
+
+if (document.body.classList.contains("signage")) {
+    // Screens can't be made fullscreen without someone there to click
+    document.body.addEventListener("click", () => document.documentElement.requestFullscreen?.());
+}
+
+refresh();
+setInterval(refresh, REFRESH_INTERVAL_MS);
+setInterval(render, TICK_INTERVAL_MS);
@@ -16,7 +16,7 @@ limitations under the License.
 
 import "./common.scss";
 import { MatrixCapabilities, WidgetApi } from "matrix-widget-api";
-import { widgetId } from "./widgets";
+import { urlParams, widgetId } from "./widgets";
 import { formatDuration, getAttr } from "./common";
 
 const upvoteEl = document.querySelector("#upvoted");
@@ -27,14 +27,21 @@ interface Scoreboard {
 }
 
 interface RoomMessage {
+    eventId: string;
     permalink: string;
     text: string;
     upvotes: number;
     senderId: string;
     senderName?: string;
     senderAvatarHttpUrl?: string;
+    pinned: boolean;
+    answered: boolean;
+    hidden: boolean;
+    replies?: Reply[];
 }
 
+type Reply = Omit<RoomMessage, "pinned" | "answered" | "hidden" | "replies">;
+
 let widgetApi: WidgetApi | undefined;
 
 // Start widget API as early as possible
@@ -51,6 +58,10 @@ if (widgetId) {
 
 const forRoomId = getAttr('org.matrix.confbot.room_id');
 
+// Passed back to the bot when the room needs people to log in to see its scoreboard
+const widgetToken = urlParams.get("widgetToken");
+const tokenQuery = widgetToken ? `?widgetToken=${encodeURIComponent(widgetToken)}` : "";
+
 function innerText(tag: string, clazz: string, text: string): [string, string[]] {
     const id = Date.now() + '-' + (Math.random() * Number.MAX_SAFE_INTEGER) + '-text';
 
@@ -62,6 +73,19 @@ function innerText(tag: string, clazz: string, text: string): [string, string[]]
 
 let bannerUpdateTimer: number | undefined;
 
+// The questions whose follow-ups are expanded, so that they stay expanded when the scoreboard updates
+const expandedEventIds = new Set<string>();
+upvoteEl?.addEventListener("toggle", ev => {
+    const details = ev.target as HTMLDetailsElement;
+    if (!details.dataset.eventId) return;
+    const eventId = decodeURIComponent(details.dataset.eventId);
+    if (details.open) {
+        expandedEventIds.add(eventId);
+    } else {
+        expandedEventIds.delete(eventId);
+    }
+}, true); // toggle events don't bubble
+
 function render(scoreboard: Scoreboard) {
     // Update countdown banner
     if (bannerUpdateTimer) {
@@ -93,7 +117,8 @@ function render(scoreboard: Scoreboard) {
     let html = "";
     const innerTexts: string[][] = [];
     for (const message of scoreboard.ordered) {
-        html += "<div class='message'>";
+        const flags = (["pinned", "answered", "hidden"] as const).filter(f => message[f]);
+        html += `<div class='message ${flags.join(" ")}'>`;
 
         /** SENDER **/
         html += "<div class='sender'>";
@@ -108,6 +133,10 @@ function render(scoreboard: Scoreboard) {
         html += val;
         innerTexts.push(t);
 
+        for (const flag of flags) {
+            html += `<span class="flag ${flag}">${flag}</span>`;
+        }
+
         html += "</div>";
 
         /** MESSAGE **/
@@ -120,6 +149,27 @@ function render(scoreboard: Scoreboard) {
 
         html += "</div>";
 
+        /** FOLLOW-UPS **/
+        const replies = message.replies ?? [];
+        if (replies.length > 0) {
+            const open = expandedEventIds.has(message.eventId) ? " open" : "";
+            html += `<details class="replies" data-event-id="${encodeURIComponent(message.eventId)}"${open}>`;
+            html += `<summary>${replies.length} ${replies.length === 1 ? "follow-up" : "follow-ups"}</summary>`;
+            for (const reply of replies) {
+                html += "<div class='reply'>";
+                html += `<span class="votes"><a href="${reply.permalink}" onclick="intercept(event)">${reply.upvotes}</a></span> `;
+                [val, t] = innerText('span', 'name', reply.senderName || reply.senderId);
+                html += val;
+                innerTexts.push(t);
+                html += ": ";
+                [val, t] = innerText('span', 'text', reply.text);
+                html += val;
+                innerTexts.push(t);
+                html += "</div>";
+            }
+            html += "</details>";
+        }
+
         html += "</div>";
     }
     upvoteEl!.innerHTML = html;
@@ -130,13 +180,30 @@ function render(scoreboard: Scoreboard) {
 
 function doFetch() {
     if (forRoomId) {
-        fetch(`/scoreboard/${encodeURIComponent(forRoomId)}`).then(r => r.json()).then(r => {
+        fetch(`/scoreboard/${encodeURIComponent(forRoomId)}${tokenQuery}`).then(r => r.json()).then(r => {
             render(r);
             setTimeout(doFetch, 3000);
         }).catch(() => setTimeout(doFetch, 15_000));
     }
 }
 
+function subscribe() {
+    if (!forRoomId) return;
+    if (typeof EventSource === "undefined") {
+        // Poll instead if the browser can't stream
+        return doFetch();
+    }
+
+    const source = new EventSource(`/scoreboard/${encodeURIComponent(forRoomId)}/events${tokenQuery}`);
+    source.addEventListener("message", ev => render(JSON.parse(ev.data)));
+    source.addEventListener("error", () => {
+        // Fall back to polling while the stream is down, then try it again
+        source.close();
+        fetch(`/scoreboard/${encodeURIComponent(forRoomId)}${tokenQuery}`).then(r => r.json()).then(render).catch(() => { /* the stream is retried below */ });
+        setTimeout(subscribe, 15_000);
+    });
+}
+
 function intercept(ev) {
     if (!widgetApi) return; // let the browser work
 
@@ -146,4 +213,4 @@ function intercept(ev) {
 }
 (<any>window).intercept = intercept; // eslint-disable-line @typescript-eslint/no-explicit-any
 
-doFetch();
+subscribe();
@@ -24,6 +24,9 @@ module.exports = {
         'auditorium': './web/auditorium.ts',
         'talk': './web/talk.ts',
         'scoreboard': './web/scoreboard.ts',
+        'dashboard': './web/dashboard.ts',
+        'auth': './web/auth.ts',
+        'now-next': './web/now-next.ts',
     },
     devtool: 'source-map',
     module: {
@@ -65,6 +68,24 @@ module.exports = {
             chunks: ['scoreboard'],
             filename: "scoreboard.liquid",
         }),
+        new HtmlWebpackPlugin({
+            template: './web/dashboard.liquid',
+            inject: true,
+            chunks: ['dashboard'],
+            filename: "dashboard.liquid",
+        }),
+        new HtmlWebpackPlugin({
+            template: './web/auth.liquid',
+            inject: true,
+            chunks: ['auth'],
+            filename: "auth.liquid",
+        }),
+        new HtmlWebpackPlugin({
+            template: './web/now-next.liquid',
+            inject: true,
+            chunks: ['now-next'],
+            filename: "now-next.liquid",
+        }),
     ],
     output: {
         path: path.resolve(__dirname, 'srv'),